@@ -0,0 +1,45 @@
+// credentials for a single connection attempt
+export interface SessionAuth {
+  token: string;
+  // "query": appended to the url as ?<param>=<token> (default)
+  // "protocol": offered as an additional Sec-WebSocket-Protocol subprotocol
+  via?: "query" | "protocol";
+  param?: string; // query parameter name (default "token")
+}
+
+export interface AuthContext {
+  attempt: number; // reconnect attempt, 0 for the initial connect
+  // true if the server rejected the previous credentials, i.e. a cached token
+  // should not be reused
+  refresh: boolean;
+}
+
+// called before every connection attempt, null connects without credentials
+export type AuthProvider = (
+  context: AuthContext
+) => SessionAuth | null | Promise<SessionAuth | null>;
+
+// close codes that mean "credentials rejected" by default
+export const DEFAULT_AUTH_FAILURE_CODES = [4001, 4401, 4403];
+
+// the url and subprotocols to connect with, given the credentials
+export const applyAuth = (
+  url: string,
+  protocols: string[],
+  auth: SessionAuth | null
+): { url: string; protocols: string[] } => {
+  if (auth === null) return { url, protocols };
+
+  if (auth.via === "protocol") {
+    return { url, protocols: [...protocols, auth.token] };
+  }
+
+  const param = `${encodeURIComponent(
+    auth.param ?? "token"
+  )}=${encodeURIComponent(auth.token)}`;
+  const hashIndex = url.indexOf("#");
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const separator = base.includes("?") ? "&" : "?";
+  return { url: `${base}${separator}${param}${hash}`, protocols };
+};
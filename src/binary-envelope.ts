@@ -0,0 +1,70 @@
+// Single-message framing for binary events:
+//
+//   magic (4 bytes) | header length (uint32, big endian) | header | payload
+//
+// where the header is the UTF-8 JSON of { type, metadata }. Unlike the legacy
+// _BIN_META + binary message pair, an envelope cannot be split up by other
+// messages, so concurrent binary transfers are safe.
+
+// 0xF5 never occurs in UTF-8 and never starts a msgpack map
+export const BINARY_ENVELOPE_MAGIC = new Uint8Array([0xf5, 0x57, 0x53, 0x42]);
+
+const HEADER_OFFSET = BINARY_ENVELOPE_MAGIC.length + 4;
+
+// how Session.sendBinary frames binary events:
+// - "pair": a _BIN_META message followed by the raw payload (legacy)
+// - "envelope": a single binary message, see encodeBinaryEnvelope
+export type BinaryFraming = "pair" | "envelope";
+
+export interface BinaryEnvelope {
+  type: string;
+  metadata: unknown;
+  data: ArrayBuffer;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const encodeBinaryEnvelope = (
+  type: string,
+  metadata: unknown,
+  data: ArrayBuffer
+): ArrayBuffer => {
+  const header = textEncoder.encode(JSON.stringify({ type, metadata }));
+  const out = new Uint8Array(HEADER_OFFSET + header.length + data.byteLength);
+  out.set(BINARY_ENVELOPE_MAGIC, 0);
+  new DataView(out.buffer).setUint32(
+    BINARY_ENVELOPE_MAGIC.length,
+    header.length
+  );
+  out.set(header, HEADER_OFFSET);
+  out.set(new Uint8Array(data), HEADER_OFFSET + header.length);
+  return out.buffer;
+};
+
+export const isBinaryEnvelope = (message: ArrayBuffer): boolean => {
+  if (message.byteLength < HEADER_OFFSET) return false;
+  const bytes = new Uint8Array(message, 0, BINARY_ENVELOPE_MAGIC.length);
+  return BINARY_ENVELOPE_MAGIC.every((byte, i) => bytes[i] === byte);
+};
+
+// null if the message is not an envelope
+export const decodeBinaryEnvelope = (
+  message: ArrayBuffer
+): BinaryEnvelope | null => {
+  if (!isBinaryEnvelope(message)) return null;
+
+  const headerLength = new DataView(message).getUint32(
+    BINARY_ENVELOPE_MAGIC.length
+  );
+  const payloadOffset = HEADER_OFFSET + headerLength;
+  if (payloadOffset > message.byteLength) {
+    throw new Error(
+      `binary envelope header length ${headerLength} exceeds message size ${message.byteLength}`
+    );
+  }
+  const { type, metadata } = JSON.parse(
+    textDecoder.decode(new Uint8Array(message, HEADER_OFFSET, headerLength))
+  ) as { type: string; metadata?: unknown };
+  return { type, metadata, data: message.slice(payloadOffset) };
+};
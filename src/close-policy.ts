@@ -0,0 +1,45 @@
+// how the server (or the network) closed the connection
+export interface CloseInfo {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+// what the session does after a close:
+// - "reconnect": retry according to the reconnect policy
+// - { reconnectAfter }: retry once after a fixed delay in ms
+// - "stop": stay closed and show the close reason
+// - "reauth": refresh the credentials (see getAuth) and retry right away
+export type ClosePolicy =
+  | "reconnect"
+  | { reconnectAfter: number }
+  | "stop"
+  | "reauth";
+
+export interface CloseCodeRule {
+  // a single code, a list of codes, or an inclusive [from, to] range
+  codes: number | number[] | { from: number; to: number };
+  policy: ClosePolicy;
+}
+
+// applied after the user's rules, anything unmatched reconnects
+export const DEFAULT_CLOSE_CODE_RULES: CloseCodeRule[] = [
+  // protocol violations will not go away by retrying
+  { codes: [1002, 1003, 1007, 1008, 1009, 1010], policy: "stop" },
+  // "try again later"
+  { codes: 1013, policy: { reconnectAfter: 10000 } },
+];
+
+const matches = (rule: CloseCodeRule, code: number): boolean => {
+  const { codes } = rule;
+  if (typeof codes === "number") return codes === code;
+  if (Array.isArray(codes)) return codes.includes(code);
+  return code >= codes.from && code <= codes.to;
+};
+
+// first matching rule wins
+export const resolveClosePolicy = (
+  rules: CloseCodeRule[],
+  code: number
+): ClosePolicy =>
+  rules.find((rule) => matches(rule, code))?.policy ?? "reconnect";
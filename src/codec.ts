@@ -0,0 +1,50 @@
+import {
+  decode as msgpackDecode,
+  encode as msgpackEncode,
+} from "@msgpack/msgpack";
+
+// a single structured message on the wire, e.g. { type: "_PATCH:key", data: [...] }
+export type Frame = {
+  type: string;
+  data?: unknown;
+  id?: string; // correlation id of request/response pairs
+  // payload of a binary event, data holds its metadata. Only seen by
+  // middleware, never passed to a codec.
+  binary?: ArrayBuffer | Blob;
+  [field: string]: unknown;
+};
+
+// Serializes frames to and from websocket messages
+export interface Codec {
+  readonly name: string;
+  // true if encode() produces binary messages, false for text messages
+  readonly binary: boolean;
+  encode(frame: Frame): string | ArrayBuffer | Uint8Array;
+  decode(message: string | ArrayBuffer): Frame;
+}
+
+const textDecoder = new TextDecoder();
+
+// the default: one JSON text message per frame
+export const jsonCodec: Codec = {
+  name: "json",
+  binary: false,
+  encode: (frame) => JSON.stringify(frame),
+  decode: (message) =>
+    JSON.parse(
+      typeof message === "string" ? message : textDecoder.decode(message)
+    ) as Frame,
+};
+
+// compact binary encoding, also transports Uint8Array values without base64
+export const msgpackCodec: Codec = {
+  name: "msgpack",
+  binary: true,
+  encode: (frame) => msgpackEncode(frame),
+  decode: (message) => {
+    if (typeof message === "string") {
+      return JSON.parse(message) as Frame; // servers may still send text frames
+    }
+    return msgpackDecode(new Uint8Array(message)) as Frame;
+  },
+};
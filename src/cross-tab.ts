@@ -0,0 +1,264 @@
+import {
+  AsyncTransport,
+  ReadyState,
+  Transport,
+  TransportData,
+  TransportFactory,
+  webSocketTransport,
+} from "./transport";
+
+export interface CrossTabOptions {
+  // name of the lock and the BroadcastChannel, the same in every tab (default
+  // "ws-sync")
+  name?: string;
+  // the leader's real connection (default: browser WebSocket)
+  transport?: TransportFactory;
+}
+
+// between the tabs of one CrossTabConnection name
+type TabMessage =
+  | { kind: "hello" } // a follower wants to know if the leader is connected
+  | { kind: "leader" } // a new tab took over, follow it
+  | { kind: "open" } // the leader's socket is open
+  | { kind: "close"; code: number; reason: string } // ... and closed again
+  | { kind: "send"; data: TransportData } // follower to server, via the leader
+  | { kind: "message"; data: unknown }; // server to followers, via the leader
+
+// The session's view of the shared connection
+class CrossTabSocket extends AsyncTransport {
+  constructor(private readonly connection: CrossTabConnection) {
+    super();
+  }
+
+  send(data: TransportData) {
+    this.assertOpen();
+    this.connection.forward(data);
+  }
+
+  close(code: number = 1000, reason: string = "") {
+    if (this.readyState >= ReadyState.CLOSING) return;
+    this.readyState = ReadyState.CLOSING;
+    this.connection.detach(this);
+    queueMicrotask(() => this.closed(code, reason));
+  }
+
+  opened() {
+    queueMicrotask(() => this.open());
+  }
+
+  delivered(data: unknown) {
+    this.receive(data);
+  }
+
+  lost(code: number, reason: string) {
+    if (this.readyState === ReadyState.CLOSED) return;
+    this.readyState = ReadyState.CLOSING;
+    queueMicrotask(() => this.closed(code, reason));
+  }
+}
+
+// Shares one connection between the tabs of the same origin. One tab (the
+// leader, elected with the Web Locks API) holds the real socket, the others
+// send and receive through it over a BroadcastChannel. When the leader tab
+// closes or its session stops (disconnect(), or it gave up reconnecting),
+// another tab takes over and every session reconnects, so init handlers run
+// again against the new connection. Create one per tab and session:
+//
+//   const tabs = new CrossTabConnection({ name: "my-app" });
+//   const session = new Session({ url, transport: tabs.transport });
+//
+// Without BroadcastChannel or navigator.locks every tab connects on its own.
+export class CrossTabConnection {
+  readonly name: string;
+  private inner: TransportFactory;
+  private url: string = "";
+  private protocols?: string | string[];
+  private socket: CrossTabSocket | null = null;
+  private channel: BroadcastChannel | null = null;
+  private leader: boolean = false;
+  private server: Transport | null = null; // the real socket, leader only
+  private abortLock: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+
+  constructor(options: CrossTabOptions = {}) {
+    this.name = options.name ?? "ws-sync";
+    this.inner = options.transport ?? webSocketTransport;
+    // the session stopped reconnecting, e.g. disconnect() while waiting for a
+    // retry: no socket is left to close, step down here
+    this.transport.release = () => this.close();
+  }
+
+  // true while this tab holds the real connection
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  // pass this to SessionOptions.transport
+  readonly transport: TransportFactory = (url, protocols) => {
+    if (!isSupported()) return this.inner(url, protocols);
+
+    this.url = url;
+    this.protocols = protocols;
+    const socket = new CrossTabSocket(this);
+    this.socket = socket;
+    if (this.channel === null) this.start();
+
+    if (!this.leader) {
+      this.post({ kind: "hello" });
+    } else if (this.server === null) {
+      this.connectServer();
+    } else if (this.server.readyState === ReadyState.OPEN) {
+      socket.opened();
+    }
+    return socket;
+  };
+
+  // used by CrossTabSocket.send
+  forward(data: TransportData) {
+    if (!this.leader) {
+      this.post({ kind: "send", data });
+    } else if (this.server?.readyState === ReadyState.OPEN) {
+      this.server.send(data);
+    } else {
+      // the sender has not seen the close yet, make it reconnect rather than
+      // lose the data silently
+      this.post({ kind: "close", code: 1006, reason: "leader not connected" });
+      const socket = this.socket;
+      if (socket?.readyState === ReadyState.OPEN) {
+        this.socket = null;
+        socket.lost(1006, "leader not connected");
+      }
+    }
+  }
+
+  // The session closed its socket, e.g. on disconnect(). Step down, so that
+  // another tab can take over.
+  detach(socket: CrossTabSocket) {
+    if (socket !== this.socket) return;
+    this.socket = null;
+    this.stop();
+  }
+
+  // Step down and let another tab take over. The session's socket closes and
+  // its next attempt joins again, as a follower if another tab took the lock.
+  close() {
+    const socket = this.socket;
+    this.socket = null;
+    this.stop();
+    socket?.lost(1000, "");
+  }
+
+  private start() {
+    const channel = new BroadcastChannel(this.name);
+    channel.onmessage = (e: MessageEvent) => this.handle(e.data as TabMessage);
+    this.channel = channel;
+
+    const abort = new AbortController();
+    this.abortLock = abort;
+    navigator.locks
+      .request(this.name, { signal: abort.signal }, () => {
+        this.becomeLeader();
+        // held until stop()
+        return new Promise<void>((resolve) => (this.releaseLock = resolve));
+      })
+      .catch(() => {}); // aborted while waiting
+  }
+
+  private stop() {
+    if (this.leader) {
+      this.post({ kind: "close", code: 1001, reason: "leader left" });
+    }
+    const server = this.server;
+    if (server !== null) {
+      server.onopen = null;
+      server.onclose = null;
+      server.onmessage = null;
+      server.onerror = null;
+      server.close();
+      this.server = null;
+    }
+    this.abortLock?.abort();
+    this.abortLock = null;
+    this.releaseLock?.();
+    this.releaseLock = null;
+    this.channel?.close();
+    this.channel = null;
+    this.leader = false;
+  }
+
+  private becomeLeader() {
+    this.leader = true;
+    this.post({ kind: "leader" });
+    const socket = this.socket;
+    if (socket?.readyState === ReadyState.OPEN) {
+      // followed a leader that went away, reconnect through our own socket
+      this.socket = null;
+      socket.lost(1001, "leader changed");
+    } else if (socket !== null) {
+      this.connectServer();
+    }
+  }
+
+  private connectServer() {
+    const server = this.inner(this.url, this.protocols);
+    server.binaryType = "arraybuffer"; // Blobs can't be relayed synchronously
+    this.server = server;
+
+    server.onopen = () => {
+      this.socket?.opened();
+      this.post({ kind: "open" });
+    };
+    server.onmessage = (e) => {
+      this.socket?.delivered(e.data);
+      this.post({ kind: "message", data: e.data });
+    };
+    server.onclose = (e) => {
+      if (this.server !== server) return;
+      this.server = null;
+      this.post({ kind: "close", code: e.code, reason: e.reason });
+      const socket = this.socket;
+      this.socket = null;
+      // no session here waits to reconnect, let another tab take over
+      if (socket === null) this.stop();
+      else socket.lost(e.code, e.reason);
+    };
+  }
+
+  private handle(message: TabMessage) {
+    if (this.leader) {
+      if (message.kind === "hello") {
+        if (this.server?.readyState === ReadyState.OPEN) {
+          this.post({ kind: "open" });
+        }
+      } else if (message.kind === "send") {
+        this.forward(message.data);
+      }
+      return;
+    }
+
+    const socket = this.socket;
+    if (socket === null) return;
+    if (message.kind === "open") {
+      if (socket.readyState === ReadyState.CONNECTING) socket.opened();
+    } else if (message.kind === "message") {
+      socket.delivered(message.data);
+    } else if (message.kind === "close") {
+      this.socket = null;
+      socket.lost(message.code, message.reason);
+    } else if (message.kind === "leader") {
+      if (socket.readyState === ReadyState.OPEN) {
+        this.socket = null;
+        socket.lost(1001, "leader changed");
+      }
+    }
+  }
+
+  private post(message: TabMessage) {
+    this.channel?.postMessage(message);
+  }
+}
+
+const isSupported = () =>
+  typeof BroadcastChannel !== "undefined" &&
+  typeof navigator !== "undefined" &&
+  navigator.locks !== undefined;
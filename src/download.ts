@@ -0,0 +1,217 @@
+import fileDownload from "js-file-download";
+import type { Logger } from "./logger";
+import { readBlob } from "./utils/blob";
+
+// Download protocol, server to client, all correlated by the download id:
+// - _DOWNLOAD_START { id, filename, size?, mimeType? }
+// - _DOWNLOAD_CHUNK (binary) { id, offset } + the chunk's bytes
+// - _DOWNLOAD_END { id }
+// - _DOWNLOAD_ABORT { id, reason? }, the server gave up
+// and client to server:
+// - _DOWNLOAD_CANCEL { id }, the user cancelled, stop sending chunks
+// The legacy _DOWNLOAD { filename, data } (base64) is handled as a download
+// with a single chunk.
+export const DOWNLOAD_START_EVENT = "_DOWNLOAD_START";
+export const DOWNLOAD_CHUNK_EVENT = "_DOWNLOAD_CHUNK";
+export const DOWNLOAD_END_EVENT = "_DOWNLOAD_END";
+export const DOWNLOAD_ABORT_EVENT = "_DOWNLOAD_ABORT";
+export const DOWNLOAD_CANCEL_EVENT = "_DOWNLOAD_CANCEL";
+
+export interface DownloadInfo {
+  id: string;
+  filename: string;
+  size: number | null; // bytes, null if the server did not announce it
+  mimeType?: string;
+}
+
+export interface DownloadProgress extends DownloadInfo {
+  received: number; // bytes
+}
+
+// Receives the chunks of one download, in order. Writes are not overlapped:
+// the next write starts after the previous one settled.
+export interface DownloadSink {
+  write(chunk: ArrayBuffer | Blob): void | Promise<void>;
+  close(): void | Promise<void>; // all chunks received
+  abort?(reason: string): void | Promise<void>; // failed or cancelled
+}
+
+// creates the sink for each download
+export type DownloadSinkFactory = (info: DownloadInfo) => DownloadSink;
+
+// collects the chunks and hands the complete Blob to `onBlob`
+export const blobSink =
+  (onBlob: (blob: Blob, info: DownloadInfo) => void): DownloadSinkFactory =>
+  (info) => {
+    const parts: (ArrayBuffer | Blob)[] = [];
+    return {
+      write: (chunk) => {
+        parts.push(chunk);
+      },
+      close: () => onBlob(new Blob(parts, { type: info.mimeType }), info),
+    };
+  };
+
+// the default: save the file through the browser's download dialog
+export const saveFileSink: DownloadSinkFactory = blobSink((blob, info) =>
+  fileDownload(blob, info.filename, info.mimeType)
+);
+
+const toBytes = async (chunk: ArrayBuffer | Blob): Promise<Uint8Array> =>
+  new Uint8Array(chunk instanceof Blob ? await readBlob(chunk) : chunk);
+
+// writes the chunks to a stream, e.g. from the File System Access API
+export const streamSink =
+  (
+    open: (
+      info: DownloadInfo
+    ) => WritableStream<Uint8Array> | Promise<WritableStream<Uint8Array>>
+  ): DownloadSinkFactory =>
+  (info) => {
+    const writer = Promise.resolve(open(info)).then((stream) =>
+      stream.getWriter()
+    );
+    return {
+      write: async (chunk) => (await writer).write(await toBytes(chunk)),
+      close: async () => (await writer).close(),
+      abort: async (reason) => (await writer).abort(reason),
+    };
+  };
+
+type Transfer = {
+  progress: DownloadProgress;
+  sink: DownloadSink;
+  writing: Promise<void>; // the chain of sink calls
+};
+
+// Bookkeeping of the downloads in progress, see DOWNLOAD_START_EVENT
+export class Downloads {
+  private transfers: Map<string, Transfer> = new Map();
+  private snapshot: DownloadProgress[] = [];
+  private subscribers: Set<() => void> = new Set();
+
+  constructor(
+    private readonly log: Logger,
+    private readonly onSinkError: (id: string) => void // e.g. cancel remotely
+  ) {}
+
+  // active downloads, a new array after every change
+  get list(): DownloadProgress[] {
+    return this.snapshot;
+  }
+
+  subscribe(callback: () => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  start(info: DownloadInfo, sinkFactory: DownloadSinkFactory) {
+    if (this.transfers.has(info.id)) {
+      this.log.warn(`Download ${info.id} started twice`);
+      return;
+    }
+    let sink: DownloadSink;
+    try {
+      sink = sinkFactory(info);
+    } catch (err) {
+      this.log.error(`Download sink for ${info.filename} threw:`, err);
+      return;
+    }
+    this.transfers.set(info.id, {
+      progress: { ...info, received: 0 },
+      sink,
+      writing: Promise.resolve(),
+    });
+    this.changed();
+  }
+
+  chunk(id: string, offset: number, data: ArrayBuffer | Blob) {
+    const transfer = this.transfers.get(id);
+    if (transfer === undefined) return; // unknown, cancelled or failed
+    if (offset !== transfer.progress.received) {
+      this.fail(
+        id,
+        `expected a chunk at ${transfer.progress.received}, got ${offset}`
+      );
+      return;
+    }
+
+    const size = data instanceof Blob ? data.size : data.byteLength;
+    transfer.progress = {
+      ...transfer.progress,
+      received: transfer.progress.received + size,
+    };
+    this.enqueue(id, transfer, () => transfer.sink.write(data));
+    this.changed();
+  }
+
+  end(id: string) {
+    const transfer = this.transfers.get(id);
+    if (transfer === undefined) return;
+    this.settle(id, transfer, () => transfer.sink.close());
+  }
+
+  // the server aborted, or the connection dropped
+  fail(id: string, reason: string) {
+    const transfer = this.transfers.get(id);
+    if (transfer === undefined) return;
+    this.log.warn(`Download ${transfer.progress.filename} failed: ${reason}`);
+    this.settle(id, transfer, () => transfer.sink.abort?.(reason));
+  }
+
+  // returns false if the download is not in progress
+  cancel(id: string): boolean {
+    const transfer = this.transfers.get(id);
+    if (transfer === undefined) return false;
+    this.settle(id, transfer, () => transfer.sink.abort?.("cancelled"));
+    return true;
+  }
+
+  failAll(reason: string) {
+    for (const id of Array.from(this.transfers.keys())) {
+      this.fail(id, reason);
+    }
+  }
+
+  // remove from the active downloads, then finish the sink
+  private settle(
+    id: string,
+    transfer: Transfer,
+    finish: () => void | Promise<void>
+  ) {
+    this.transfers.delete(id);
+    this.enqueue(id, transfer, finish);
+    this.changed();
+  }
+
+  // run sink calls one after the other, a failing sink fails the download
+  private enqueue(
+    id: string,
+    transfer: Transfer,
+    step: () => void | Promise<void>
+  ) {
+    transfer.writing = transfer.writing.then(step).catch((err) => {
+      this.log.error(
+        `Download sink for ${transfer.progress.filename} threw:`,
+        err
+      );
+      if (this.transfers.get(id) === transfer) {
+        this.transfers.delete(id);
+        this.changed();
+        this.onSinkError(id);
+        void Promise.resolve(transfer.sink.abort?.(String(err))).catch(
+          () => {}
+        );
+      }
+    });
+  }
+
+  private changed() {
+    this.snapshot = Array.from(this.transfers.values(), (t) => t.progress);
+    for (const cb of Array.from(this.subscribers)) {
+      cb();
+    }
+  }
+}
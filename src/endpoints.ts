@@ -0,0 +1,66 @@
+// which endpoint the next connection attempt goes to, see SessionOptions.url:
+// - "failover": the first endpoint whenever possible, the next one in order
+//   after a failed attempt, back to the first after an established connection
+//   was lost
+// - "round-robin": the next endpoint after every close
+// - "sticky": the next endpoint after a failed attempt, but the last one that
+//   connected successfully after an established connection was lost
+export type EndpointStrategy = "failover" | "round-robin" | "sticky";
+
+// server to client: move to another endpoint, e.g. while this one is being
+// redeployed. Without a url the client moves to its next endpoint.
+export const REDIRECT_EVENT = "_REDIRECT";
+
+export interface RedirectPayload {
+  url?: string;
+  reason?: string;
+}
+
+// Endpoint selection of a session, driven by its reconnect loop
+export class Endpoints {
+  private index: number = 0;
+  private _current: string;
+
+  constructor(
+    readonly list: string[],
+    private readonly strategy: EndpointStrategy
+  ) {
+    if (list.length === 0) {
+      throw new Error("at least one endpoint url is required");
+    }
+    this._current = list[0];
+  }
+
+  get current(): string {
+    return this._current;
+  }
+
+  // a connection closed, `established` if it had opened. Returns true if the
+  // next attempt goes to a different endpoint.
+  advance(established: boolean): boolean {
+    if (established && this.strategy === "sticky") return false;
+    this.index =
+      established && this.strategy === "failover"
+        ? 0
+        : (this.index + 1) % this.list.length;
+    return this.select(this.list[this.index]);
+  }
+
+  // the server asked to move to `url`, or to the next endpoint
+  redirect(url?: string) {
+    if (url === undefined) {
+      this.index = (this.index + 1) % this.list.length;
+      this.select(this.list[this.index]);
+      return;
+    }
+    const index = this.list.indexOf(url);
+    if (index !== -1) this.index = index;
+    this.select(url); // may be outside the list, until the next advance()
+  }
+
+  private select(url: string): boolean {
+    const changed = url !== this._current;
+    this._current = url;
+    return changed;
+  }
+}
@@ -0,0 +1,76 @@
+export const PING_EVENT = "_PING";
+export const PONG_EVENT = "_PONG";
+
+export interface HeartbeatOptions {
+  interval?: number; // ms between pings (default 15000)
+  timeout?: number; // ms to wait for the pong before the connection is considered dead (default 5000)
+}
+
+// payload of _PING, echoed back unchanged in _PONG
+export interface PingPayload {
+  seq: number;
+  sentAt: number;
+}
+
+// Periodically pings the server and reports round-trip times, or a timeout
+// when the server stops answering.
+export class Heartbeat {
+  readonly interval: number;
+  readonly timeout: number;
+  private seq: number = 0;
+  private outstanding: PingPayload | null = null;
+  private intervalTimer: ReturnType<typeof setInterval> | null = null;
+  private timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    options: HeartbeatOptions,
+    private readonly sendPing: (payload: PingPayload) => void,
+    private readonly onRtt: (rtt: number) => void,
+    private readonly onTimeout: () => void
+  ) {
+    this.interval = options.interval ?? 15000;
+    this.timeout = options.timeout ?? 5000;
+  }
+
+  start() {
+    this.stop();
+    this.intervalTimer = setInterval(() => this.ping(), this.interval);
+  }
+
+  stop() {
+    if (this.intervalTimer !== null) {
+      clearInterval(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+    if (this.timeoutTimer !== null) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+    this.outstanding = null;
+  }
+
+  ping() {
+    if (this.outstanding !== null) return; // still waiting for the last pong
+
+    const payload = { seq: ++this.seq, sentAt: Date.now() };
+    this.outstanding = payload;
+    this.timeoutTimer = setTimeout(() => {
+      this.timeoutTimer = null;
+      this.outstanding = null;
+      this.onTimeout();
+    }, this.timeout);
+    this.sendPing(payload);
+  }
+
+  handlePong(payload: PingPayload | undefined) {
+    if (this.outstanding === null || payload?.seq !== this.outstanding.seq) {
+      return; // stale or unsolicited
+    }
+    if (this.timeoutTimer !== null) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+    this.outstanding = null;
+    this.onRtt(Date.now() - payload.sentAt);
+  }
+}
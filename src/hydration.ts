@@ -0,0 +1,13 @@
+// synced states rendered on the server, by key, see Session.hydrate
+export type SyncSnapshot = Record<string, unknown>;
+
+// local only: replaces a synced state with its snapshot, like a _SET that
+// did not come from the server
+export const hydrateEvent = (key: string) => "_HYDRATE:" + key;
+
+// JSON that is safe to inline into a <script> tag of the server-rendered page
+export const serializeSnapshot = (snapshot: SyncSnapshot): string =>
+  JSON.stringify(snapshot)
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
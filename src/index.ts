@@ -10,8 +10,151 @@ export {
   useSynced,
   useSyncedReducer,
 } from "./react/synced-reducer";
-export { useRemoteToast } from "./remote-toast";
-export { DefaultSessionContext, Session, SessionProvider } from "./session";
+export {
+  AuthContext,
+  AuthProvider,
+  DEFAULT_AUTH_FAILURE_CODES,
+  SessionAuth,
+} from "./auth";
+export {
+  BinaryEnvelope,
+  BinaryFraming,
+  decodeBinaryEnvelope,
+  encodeBinaryEnvelope,
+} from "./binary-envelope";
+export {
+  CloseCodeRule,
+  CloseInfo,
+  ClosePolicy,
+  DEFAULT_CLOSE_CODE_RULES,
+} from "./close-policy";
+export { Codec, Frame, jsonCodec, msgpackCodec } from "./codec";
+export { CrossTabConnection, CrossTabOptions } from "./cross-tab";
+export {
+  blobSink,
+  DownloadInfo,
+  DownloadProgress,
+  DownloadSink,
+  DownloadSinkFactory,
+  saveFileSink,
+  streamSink,
+} from "./download";
+export { EndpointStrategy, REDIRECT_EVENT, RedirectPayload } from "./endpoints";
+export { HeartbeatOptions } from "./heartbeat";
+export { serializeSnapshot, SyncSnapshot } from "./hydration";
+export {
+  consoleAdapter,
+  createLogger,
+  defaultLogger,
+  LogAdapter,
+  Logger,
+  LoggerOptions,
+  LogLevel,
+  silentLogger,
+} from "./logger";
+export { FrameHandler, Middleware, MiddlewareFn } from "./middleware";
+export {
+  OutboundQueueOptions,
+  QueueDropPolicy,
+  QueuedMessage,
+} from "./outbound-queue";
+export {
+  parseTrace,
+  RecorderOptions,
+  replayTrace,
+  ReplayOptions,
+  Trace,
+  TraceEntry,
+  TrafficRecorder,
+} from "./recorder";
+export {
+  CLIPBOARD_EVENT,
+  ClipboardRequest,
+  CONFIRM_EVENT,
+  ConfirmRequest,
+  NAVIGATE_EVENT,
+  NavigateRequest,
+  PROMPT_EVENT,
+  PromptRequest,
+  RemotePrompt,
+  RemotePromptsOptions,
+  useRemotePrompts,
+} from "./remote-prompts";
+export {
+  RemoteToast,
+  RemoteToastButton,
+  RemoteToastSettle,
+  TOAST_ACTION_EVENT,
+  TOAST_DISMISS_EVENT,
+  TOAST_EVENT,
+  TOAST_SETTLE_EVENT,
+  useRemoteToast,
+} from "./remote-toast";
+export {
+  exponentialBackoff,
+  ExponentialBackoffOptions,
+  ReconnectPolicy,
+} from "./reconnect";
+export {
+  RequestError,
+  RequestErrorReason,
+  RequestHandler,
+  RequestOptions,
+} from "./request";
+export {
+  CHANNEL_SEPARATOR,
+  ChannelOptions,
+  ChannelProvider,
+  ConnectionState,
+  DefaultSessionContext,
+  InitHandler,
+  Session,
+  SessionEventListener,
+  SessionProvider,
+  useConnectionState,
+  useDownloads,
+  useUploadProgress,
+  useRoundTripTime,
+} from "./session";
 export { Action, TaskCancel, TaskStart } from "./sync";
+export {
+  SystemEvent,
+  SystemEventData,
+  SystemHandler,
+  SystemHandlers,
+} from "./system-handlers";
+export {
+  defaultToastMessages,
+  HotToast,
+  hotToastAdapter,
+  ToastAdapter,
+  ToastButton,
+  Toastify,
+  toastifyAdapter,
+  ToastKind,
+  ToastMessages,
+  ToastOptions,
+} from "./toast";
+export {
+  BroadcastChannelTransport,
+  broadcastChannelTransport,
+  ChannelSocket,
+  LoopbackServer,
+  LoopbackSocket,
+  ReadyState,
+  Transport,
+  TransportCloseEvent,
+  TransportData,
+  TransportFactory,
+  TransportMessageEvent,
+  webSocketTransport,
+} from "./transport";
 export { synced, SyncOptions } from "./zustand/synced-store";
 export { Actions, Tasks } from "./zustand/utils";
+export {
+  Upload,
+  UploadOptions,
+  UploadProgress,
+  UploadSource,
+  UploadStatus,
+} from "./upload";
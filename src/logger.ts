@@ -0,0 +1,81 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// where log records end up, e.g. the console or a telemetry client
+export interface LogAdapter {
+  log(
+    level: LogLevel,
+    namespace: string,
+    message: string,
+    ...args: unknown[]
+  ): void;
+}
+
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+  // a logger for a sub-namespace, e.g. logger.child("sync:todos")
+  child(namespace: string): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel | "silent"; // minimum level to log (default "warn")
+  adapter?: LogAdapter; // default consoleAdapter
+  // only log these namespaces and their children, e.g. ["session", "sync"]
+  // (default: all)
+  namespaces?: string[];
+}
+
+const LEVELS: Record<LogLevel | "silent", number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+export const consoleAdapter: LogAdapter = {
+  log: (level, namespace, message, ...args) =>
+    console[level](`[${namespace || "ws-sync"}] ${message}`, ...args),
+};
+
+const matchesNamespace = (namespace: string, filter: string) =>
+  namespace === filter || namespace.startsWith(filter + ":");
+
+export const createLogger = (
+  options: LoggerOptions = {},
+  namespace: string = ""
+): Logger => {
+  const min = LEVELS[options.level ?? "warn"];
+  const adapter = options.adapter ?? consoleAdapter;
+  const enabled =
+    options.namespaces === undefined ||
+    options.namespaces.some((filter) => matchesNamespace(namespace, filter));
+  const log =
+    (level: LogLevel) =>
+    (message: string, ...args: unknown[]) => {
+      if (!enabled || LEVELS[level] < min) return;
+      adapter.log(level, namespace, message, ...args);
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (child) =>
+      createLogger(options, namespace ? `${namespace}:${child}` : child),
+  };
+};
+
+export const silentLogger: Logger = createLogger({ level: "silent" });
+
+const isProduction = () =>
+  typeof process !== "undefined" && process.env?.NODE_ENV === "production";
+
+// used when no logger is configured: warnings and errors on the console
+// during development, nothing in production builds
+export const defaultLogger: Logger = isProduction()
+  ? silentLogger
+  : createLogger();
@@ -0,0 +1,39 @@
+import { Frame } from "./codec";
+
+export type FrameHandler = (frame: Frame) => void;
+
+// Receives every frame and passes it on with next(), possibly modified, later
+// (e.g. after an await) or not at all to drop it
+export type MiddlewareFn = (
+  frame: Frame,
+  next: FrameHandler
+) => void | Promise<void>;
+
+// see Session.use
+export interface Middleware {
+  outbound?: MiddlewareFn; // frames on their way to the transport
+  inbound?: MiddlewareFn; // decoded frames on their way to the handlers
+}
+
+// run `frame` through `fns` in order and hand the result to `last`. A throwing
+// or rejecting middleware drops the frame.
+export const runMiddleware = (
+  fns: MiddlewareFn[],
+  frame: Frame,
+  last: FrameHandler,
+  onError: (error: unknown) => void
+) => {
+  const step = (index: number, current: Frame) => {
+    if (index === fns.length) {
+      last(current);
+      return;
+    }
+    try {
+      const result = fns[index](current, (next) => step(index + 1, next));
+      if (result instanceof Promise) result.catch(onError);
+    } catch (err) {
+      onError(err);
+    }
+  };
+  step(0, frame);
+};
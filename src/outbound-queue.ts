@@ -0,0 +1,80 @@
+// what to do when a message is enqueued into a full queue
+export type QueueDropPolicy = "drop-oldest" | "drop-newest";
+
+export interface OutboundQueueOptions {
+  maxSize?: number; // max number of buffered messages (default 1000)
+  maxAge?: number; // max age in ms before a buffered message expires (default: never)
+  dropPolicy?: QueueDropPolicy; // (default "drop-oldest")
+}
+
+// a message that was sent while the socket was not OPEN
+export type OutboundMessage =
+  | { kind: "event"; event: string; data: unknown }
+  | { kind: "binary"; event: string; metadata: unknown; data: ArrayBuffer };
+
+export type QueuedMessage = OutboundMessage & { enqueuedAt: number };
+
+// Bounded FIFO buffer for messages sent while disconnected
+export class OutboundQueue {
+  readonly maxSize: number;
+  readonly maxAge: number | null;
+  readonly dropPolicy: QueueDropPolicy;
+  private messages: QueuedMessage[] = [];
+
+  constructor(options: OutboundQueueOptions = {}) {
+    this.maxSize = Math.max(1, options.maxSize ?? 1000);
+    this.maxAge = options.maxAge ?? null;
+    this.dropPolicy = options.dropPolicy ?? "drop-oldest";
+  }
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  // returns the messages that were dropped to make room (or the rejected message itself)
+  enqueue(message: OutboundMessage): QueuedMessage[] {
+    const dropped = this.prune();
+    const queued: QueuedMessage = { ...message, enqueuedAt: Date.now() };
+
+    if (this.messages.length >= this.maxSize) {
+      if (this.dropPolicy === "drop-newest") {
+        dropped.push(queued);
+        return dropped;
+      }
+      const overflow = this.messages.length - this.maxSize + 1;
+      dropped.push(...this.messages.splice(0, overflow));
+    }
+    this.messages.push(queued);
+    return dropped;
+  }
+
+  // remove and return all messages still within maxAge, oldest first
+  drain(): QueuedMessage[] {
+    this.prune();
+    const messages = this.messages;
+    this.messages = [];
+    return messages;
+  }
+
+  // snapshot of the currently buffered messages, oldest first
+  peek(): QueuedMessage[] {
+    this.prune();
+    return [...this.messages];
+  }
+
+  // discard all messages, returns how many were discarded
+  clear(): number {
+    const count = this.messages.length;
+    this.messages = [];
+    return count;
+  }
+
+  // drop expired messages, returns them
+  private prune(): QueuedMessage[] {
+    if (this.maxAge === null) return [];
+    const cutoff = Date.now() - this.maxAge;
+    const firstFresh = this.messages.findIndex((m) => m.enqueuedAt >= cutoff);
+    const expiredCount = firstFresh === -1 ? this.messages.length : firstFresh;
+    return this.messages.splice(0, expiredCount);
+  }
+}
@@ -138,8 +138,9 @@ export function useSyncedReducer<S extends Record<string, unknown>>(
   };
 
   // The underlying state holder and reducer
+  // (starting from the server-rendered snapshot, if any)
   const [[state, effects], dispatch] = useReducer(wrappedReducer, [
-    initialState,
+    syncObj.hydratedState<S>() ?? initialState,
     [],
   ]);
 
@@ -0,0 +1,38 @@
+// Decides how long to wait before each reconnect attempt
+export interface ReconnectPolicy {
+  // delay in ms before the given attempt (1 = first retry after a drop), or
+  // null to give up reconnecting
+  nextDelay(attempt: number): number | null;
+}
+
+export interface ExponentialBackoffOptions {
+  minDelay?: number; // delay of the first attempt in ms (default 250)
+  maxDelay?: number; // upper bound of the delay in ms (default 10000)
+  factor?: number; // growth per attempt (default 2)
+  // "full": pick uniformly between 0 and the computed delay, so that clients
+  // dropped at the same time do not reconnect in lockstep. "equal": between
+  // half of it and all of it, so that a retry never comes right away
+  // (default "none")
+  jitter?: "none" | "full" | "equal";
+  maxAttempts?: number; // give up after this many attempts (default: never)
+}
+
+export const exponentialBackoff = (
+  options: ExponentialBackoffOptions = {}
+): ReconnectPolicy => {
+  const minDelay = options.minDelay ?? 250;
+  const maxDelay = options.maxDelay ?? 10000;
+  const factor = options.factor ?? 2;
+  const jitter = options.jitter ?? "none";
+  const maxAttempts = options.maxAttempts ?? Infinity;
+
+  return {
+    nextDelay: (attempt) => {
+      if (attempt > maxAttempts) return null;
+      const delay = Math.min(minDelay * factor ** (attempt - 1), maxDelay);
+      if (jitter === "full") return Math.random() * delay;
+      if (jitter === "equal") return delay / 2 + (Math.random() * delay) / 2;
+      return delay;
+    },
+  };
+};
@@ -0,0 +1,203 @@
+import { encodeBinaryEnvelope } from "./binary-envelope";
+import { Frame } from "./codec";
+import type { Session } from "./session";
+import { decodeBase64, encodeBase64 } from "./utils/base64";
+import { readBlob } from "./utils/blob";
+
+export const TRACE_VERSION = 1;
+
+export interface TraceEntry {
+  t: number; // ms since the recording started
+  direction: "in" | "out";
+  type: string;
+  key?: string; // synced object key, e.g. "todos" for _PATCH:todos
+  frame: Frame; // without the binary payload
+  binary?: string; // base64 payload of a binary event
+}
+
+// serializable recording of a session's traffic, see TrafficRecorder
+export interface Trace {
+  version: typeof TRACE_VERSION;
+  startedAt: number; // epoch ms
+  label?: string;
+  entries: TraceEntry[];
+}
+
+export interface RecorderOptions {
+  maxEntries?: number; // keep only the most recent entries (default: all)
+  // return a copy with sensitive fields removed, or null to skip the frame
+  redact?: (frame: Frame, direction: "in" | "out") => Frame | null;
+}
+
+const keyOf = (type: string): string | undefined => {
+  const separator = type.indexOf(":");
+  return separator === -1 ? undefined : type.slice(separator + 1);
+};
+
+// Captures every inbound and outbound frame of a session as a middleware.
+// Attach it after any other middleware to record frames as they are on the
+// wire (e.g. encrypted).
+export class TrafficRecorder {
+  private entries: TraceEntry[] = [];
+  private startedAt: number = Date.now();
+  private label?: string;
+  private detach: (() => void) | null = null;
+
+  constructor(private readonly options: RecorderOptions = {}) {}
+
+  // start recording, returns a function that stops it again
+  attach(session: Session): () => void {
+    this.detach?.();
+    this.label = session.label;
+    const log = session.logger.child("recorder");
+    // a failing recording (e.g. a throwing redact) must not affect the traffic
+    const record = (frame: Frame, direction: "in" | "out") => {
+      try {
+        this.record(frame, direction);
+      } catch (err) {
+        log.error(`failed to record event=${frame.type}:`, err);
+      }
+    };
+    const remove = session.use({
+      outbound: (frame, next) => {
+        record(frame, "out");
+        next(frame);
+      },
+      inbound: (frame, next) => {
+        record(frame, "in");
+        next(frame);
+      },
+    });
+    this.detach = remove;
+    return () => {
+      remove();
+      if (this.detach === remove) this.detach = null;
+    };
+  }
+
+  stop() {
+    this.detach?.();
+    this.detach = null;
+  }
+
+  clear() {
+    this.entries = [];
+    this.startedAt = Date.now();
+  }
+
+  get trace(): Trace {
+    return {
+      version: TRACE_VERSION,
+      startedAt: this.startedAt,
+      label: this.label,
+      entries: [...this.entries],
+    };
+  }
+
+  // the trace as a JSON string, e.g. to attach to a bug report
+  serialize(): string {
+    return JSON.stringify(this.trace);
+  }
+
+  private record(original: Frame, direction: "in" | "out") {
+    const frame = this.options.redact
+      ? this.options.redact(original, direction)
+      : original;
+    if (frame === null) return;
+
+    const { binary, ...rest } = frame;
+    const entry: TraceEntry = {
+      t: Date.now() - this.startedAt,
+      direction,
+      type: frame.type,
+      key: keyOf(frame.type),
+      frame: JSON.parse(JSON.stringify(rest)), // a snapshot, later mutations don't leak in
+    };
+    if (binary instanceof ArrayBuffer) {
+      entry.binary = encodeBase64(binary);
+    } else if (binary !== undefined) {
+      // filled in once the Blob is read, the entry keeps its position
+      readBlob(binary)
+        .then((buffer) => (entry.binary = encodeBase64(buffer)))
+        .catch(() => {});
+    }
+
+    this.entries.push(entry);
+    const max = this.options.maxEntries;
+    if (max !== undefined && this.entries.length > max) {
+      this.entries.splice(0, this.entries.length - max);
+    }
+  }
+}
+
+export const parseTrace = (json: string): Trace => {
+  const trace = JSON.parse(json) as Trace;
+  if (trace?.version !== TRACE_VERSION || !Array.isArray(trace.entries)) {
+    throw new Error(`unsupported trace version ${trace?.version}`);
+  }
+  return trace;
+};
+
+export interface ReplayOptions {
+  // "instant" (default) feeds all frames synchronously, "realtime" keeps the
+  // recorded gaps between them, divided by `speed`
+  timing?: "instant" | "realtime";
+  speed?: number; // default 1
+  filter?: (entry: TraceEntry) => boolean; // which inbound entries to replay
+}
+
+// Feed the inbound frames of a trace into a session as if the server had sent
+// them. Outbound entries are skipped, they were produced by the app. Rejects
+// with the error of a delivery that throws, the later entries are skipped.
+export const replayTrace = (
+  session: Session,
+  trace: Trace,
+  options: ReplayOptions = {}
+): Promise<void> => {
+  const entries = trace.entries.filter(
+    (entry) => entry.direction === "in" && (options.filter?.(entry) ?? true)
+  );
+  const deliver = (entry: TraceEntry) =>
+    session.handleReceiveEvent({
+      data:
+        entry.binary === undefined
+          ? JSON.stringify(entry.frame)
+          : encodeBinaryEnvelope(
+              entry.type,
+              entry.frame.data,
+              decodeBase64(entry.binary).buffer as ArrayBuffer
+            ),
+    });
+
+  if ((options.timing ?? "instant") === "instant") {
+    try {
+      entries.forEach(deliver);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    return Promise.resolve();
+  }
+
+  const speed = options.speed ?? 1;
+  const start = entries[0]?.t ?? 0;
+  return new Promise((resolve, reject) => {
+    const next = (index: number) => {
+      if (index === entries.length) {
+        resolve();
+        return;
+      }
+      const entry = entries[index];
+      const prev = index === 0 ? start : entries[index - 1].t;
+      setTimeout(() => {
+        try {
+          deliver(entry);
+        } catch (err) {
+          reject(err);
+          return;
+        }
+        next(index + 1);
+      }, (entry.t - prev) / speed);
+    };
+    next(0);
+  });
+};
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react";
+import { Session } from "./session";
+
+// requests of the server, answered with a _RESPONSE (see Session.onRequest)
+export const CONFIRM_EVENT = "_CONFIRM"; // answer: true or false
+export const PROMPT_EVENT = "_PROMPT"; // answer: the text, null if cancelled
+export const CLIPBOARD_EVENT = "_CLIPBOARD"; // answer: null, or an error
+// a plain event, nothing is answered
+export const NAVIGATE_EVENT = "_NAVIGATE";
+
+export interface ConfirmRequest {
+  message: string;
+  title?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  destructive?: boolean; // e.g. to show the confirm button in red
+}
+
+export interface PromptRequest {
+  message: string;
+  title?: string;
+  defaultValue?: string;
+  placeholder?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+}
+
+export interface NavigateRequest {
+  url: string; // absolute or relative to the page, http(s) only
+  replace?: boolean; // replace the current history entry
+  newTab?: boolean;
+}
+
+export interface ClipboardRequest {
+  text: string;
+}
+
+// A dialog to render, answer() sends the answer and removes it. `id` is
+// unique, e.g. as the React key.
+export type RemotePrompt =
+  | (ConfirmRequest & {
+      kind: "confirm";
+      id: string;
+      answer: (confirmed: boolean) => void;
+    })
+  | (PromptRequest & {
+      kind: "prompt";
+      id: string;
+      answer: (value: string | null) => void;
+    });
+
+export interface RemotePromptsOptions {
+  // e.g. the router's, default: assigns window.location
+  navigate?: (request: NavigateRequest) => void;
+  // default: navigator.clipboard.writeText
+  writeClipboard?: (text: string) => Promise<void>;
+}
+
+let promptIds = 0;
+
+const navigateWindow = ({ url, replace, newTab }: NavigateRequest) => {
+  if (newTab) window.open(url, "_blank", "noopener");
+  else if (replace) window.location.replace(url);
+  else window.location.assign(url);
+};
+
+const writeNavigatorClipboard = (text: string) =>
+  navigator.clipboard.writeText(text);
+
+// the server must not run scripts through javascript: or data: urls
+const isSafeUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url, window.location.href);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// Handles the server's _CONFIRM, _PROMPT, _CLIPBOARD and _NAVIGATE events.
+// Returns the open dialogs, oldest first, for the app to render with its own
+// components. Dialogs still open on unmount are answered as cancelled, and
+// removed when the connection drops.
+export const useRemotePrompts = (
+  session: Session | null,
+  options: RemotePromptsOptions = {}
+): RemotePrompt[] => {
+  const [prompts, setPrompts] = useState<RemotePrompt[]>([]);
+  const latestOptionsRef = useRef(options);
+  latestOptionsRef.current = options;
+
+  useEffect(() => {
+    if (!session) return;
+    const log = session.logger.child("prompts");
+    const cancels = new Map<string, () => void>(); // of the open dialogs
+
+    const show = <A>(
+      request: ConfirmRequest | PromptRequest,
+      kind: RemotePrompt["kind"],
+      cancelled: A
+    ) =>
+      new Promise<A>((resolve) => {
+        const id = `prompt-${++promptIds}`;
+        const answer = (value: A) => {
+          if (!cancels.delete(id)) return; // answered already
+          setPrompts((open) => open.filter((p) => p.id !== id));
+          resolve(value);
+        };
+        cancels.set(id, () => answer(cancelled));
+        const prompt = { ...request, kind, id, answer } as RemotePrompt;
+        setPrompts((open) => [...open, prompt]);
+      });
+
+    const removers = [
+      session.onRequest(CONFIRM_EVENT, (r: ConfirmRequest) =>
+        show(r, "confirm", false)
+      ),
+      session.onRequest(PROMPT_EVENT, (r: PromptRequest) =>
+        show<string | null>(r, "prompt", null)
+      ),
+      session.onRequest(CLIPBOARD_EVENT, async ({ text }: ClipboardRequest) => {
+        const write =
+          latestOptionsRef.current.writeClipboard ?? writeNavigatorClipboard;
+        await write(text);
+        return null;
+      }),
+    ];
+    session.registerEvent(NAVIGATE_EVENT, (r: NavigateRequest) => {
+      if (!isSafeUrl(r.url)) {
+        log.warn(`ignoring ${NAVIGATE_EVENT} to ${r.url}`);
+        return;
+      }
+      (latestOptionsRef.current.navigate ?? navigateWindow)(r);
+    });
+    // only this connection can take the answers, cancel the dialogs on a drop
+    const unsubscribe = session.subscribeConnectionState(({ status }) => {
+      if (status === "open" || status === "connecting") return;
+      cancels.forEach((cancel) => cancel());
+    });
+
+    return () => {
+      unsubscribe();
+      removers.forEach((remove) => remove());
+      session.deregisterEvent(NAVIGATE_EVENT);
+      cancels.forEach((cancel) => cancel());
+    };
+  }, [session]);
+
+  return prompts;
+};
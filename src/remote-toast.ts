@@ -1,39 +1,135 @@
 import { useEffect } from "react";
 import { Session } from "./session";
+import { Action, actionEvent } from "./sync";
+import type { ToastAdapter, ToastButton, ToastOptions } from "./toast";
+
+export const TOAST_EVENT = "_TOAST";
+export const TOAST_DISMISS_EVENT = "_TOAST_DISMISS";
+export const TOAST_SETTLE_EVENT = "_TOAST_SETTLE";
+export const TOAST_ACTION_EVENT = "_TOAST_ACTION"; // button without a key
+
+// a button of a remote toast, clicking it sends the action back: to the
+// synced object `key` as a regular action, or as _TOAST_ACTION {id, action}
+export interface RemoteToastButton {
+  label: string;
+  action: Action;
+  key?: string;
+}
+
+export interface RemoteToast {
+  message: string;
+  type?:
+    | "default"
+    | "message"
+    | "success"
+    | "info"
+    | "warning"
+    | "error"
+    | "loading"
+    | "promise";
+  id?: string; // a later toast with the same id updates this one
+  duration?: number;
+  description?: string;
+  action?: RemoteToastButton;
+  cancel?: RemoteToastButton;
+  // promise toasts: loading with `message` until settled with these texts
+  success?: string;
+  error?: string;
+}
+
+// ends a promise toast, e.g. when the task behind it finished
+export interface RemoteToastSettle {
+  id: string;
+  ok: boolean;
+  message?: string; // replaces the text given with the toast
+}
 
 // remote toast handler
 export const useRemoteToast = (
   session: Session | null,
-  toast: any,
+  toast: ToastAdapter,
   prefix: string = ""
 ) => {
   useEffect(() => {
-    session?.registerEvent("_TOAST", ({ message, type }) => {
+    if (!session) return;
+    const log = session.logger.child("toast");
+    // texts of unsettled promise toasts, by id
+    const pending = new Map<string, RemoteToast>();
+
+    const button = (
+      b: RemoteToastButton | undefined,
+      id: string | undefined
+    ): ToastButton | undefined =>
+      b && {
+        label: b.label,
+        onClick: () =>
+          b.key !== undefined
+            ? session.send(actionEvent(b.key), b.action)
+            : session.send(TOAST_ACTION_EVENT, { id, action: b.action }),
+      };
+
+    const show = (t: RemoteToast, type = t.type, message = t.message) => {
+      const options: ToastOptions = {
+        id: t.id,
+        duration: t.duration,
+        description: t.description,
+        action: button(t.action, t.id),
+        cancel: button(t.cancel, t.id),
+      };
+      const text = prefix + message;
       switch (type) {
-        case "default":
-          toast(prefix + message);
-          break;
-        case "message":
-          toast.message(prefix + message);
-          break;
         case "success":
-          toast.success(prefix + message);
-          break;
         case "info":
-          toast.info(prefix + message);
-          break;
         case "warning":
-          toast.warning(prefix + message);
-          break;
         case "error":
-          toast.error(prefix + message);
+        case "loading":
+          toast[type](text, options);
           break;
         default:
-          toast(prefix + message);
+          if (toast.message) toast.message(text, options);
+          else toast.info(text, options);
+      }
+    };
+
+    session.registerEvent(TOAST_EVENT, (t: RemoteToast) => {
+      if (t.type !== "promise") {
+        show(t);
+        return;
+      }
+      if (t.id === undefined) {
+        log.warn("promise toast without an id");
+        return;
       }
+      pending.set(t.id, t);
+      show({ ...t, duration: Infinity }, "loading");
+    });
+    session.registerEvent(TOAST_SETTLE_EVENT, (s: RemoteToastSettle) => {
+      const t = pending.get(s.id);
+      if (!t) return;
+      pending.delete(s.id);
+      const message = s.message ?? (s.ok ? t.success : t.error) ?? t.message;
+      show(t, s.ok ? "success" : "error", message);
+    });
+    session.registerEvent(TOAST_DISMISS_EVENT, ({ id }: { id?: string }) => {
+      // without an id, toast libraries dismiss all toasts, also the app's own
+      if (id === undefined) {
+        log.warn(`${TOAST_DISMISS_EVENT} without an id`);
+        return;
+      }
+      pending.delete(id);
+      toast.dismiss?.(id);
+    });
+    // their settle can't arrive on another connection, fail them on a drop
+    const unsubscribe = session.subscribeConnectionState(({ status }) => {
+      if (status === "open" || status === "connecting") return;
+      pending.forEach((t) => show(t, "error", t.error ?? t.message));
+      pending.clear();
     });
     return () => {
-      session?.deregisterEvent("_TOAST");
+      unsubscribe();
+      session.deregisterEvent(TOAST_EVENT);
+      session.deregisterEvent(TOAST_SETTLE_EVENT);
+      session.deregisterEvent(TOAST_DISMISS_EVENT);
     };
   }, [session, toast, prefix]);
 };
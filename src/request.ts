@@ -0,0 +1,141 @@
+// event type of the server's reply to a Session.request()
+export const RESPONSE_EVENT = "_RESPONSE";
+
+export interface RequestOptions {
+  timeout?: number; // ms until the request is rejected (default: session's requestTimeout)
+  signal?: AbortSignal; // aborting rejects the request
+}
+
+export type RequestErrorReason =
+  | "timeout"
+  | "disconnected"
+  | "aborted"
+  | "remote";
+
+// Rejection value of Session.request()
+export class RequestError extends Error {
+  readonly reason: RequestErrorReason;
+  readonly event: string;
+  readonly details: unknown; // error payload sent by the server, if any
+
+  constructor(
+    reason: RequestErrorReason,
+    event: string,
+    message: string,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "RequestError";
+    this.reason = reason;
+    this.event = event;
+    this.details = details;
+  }
+}
+
+// reply frame: { type: "_RESPONSE", id, data } or { type: "_RESPONSE", id, error }
+export interface ResponseFrame {
+  type: typeof RESPONSE_EVENT;
+  id: string;
+  data?: unknown;
+  error?: unknown;
+}
+
+// Answers a request of the server (a frame with an id), see Session.onRequest.
+// The result is sent back as the reply's data, a rejection as its error.
+export type RequestHandler<T = unknown> = (data: T) => unknown;
+
+type Pending = {
+  event: string;
+  resolve: (data: unknown) => void;
+  reject: (error: RequestError) => void;
+  cleanup: () => void;
+};
+
+// Bookkeeping of in-flight requests by correlation id
+export class PendingRequests {
+  private pending: Map<string, Pending> = new Map();
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  add<T>(
+    id: string,
+    event: string,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestError("aborted", event, `request ${event} aborted`));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.reject(
+          id,
+          new RequestError(
+            "timeout",
+            event,
+            `request ${event} timed out after ${timeout}ms`
+          )
+        );
+      }, timeout);
+      const onAbort = () => {
+        this.reject(
+          id,
+          new RequestError("aborted", event, `request ${event} aborted`)
+        );
+      };
+      signal?.addEventListener("abort", onAbort);
+
+      this.pending.set(id, {
+        event,
+        resolve: resolve as (data: unknown) => void,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+        },
+      });
+    });
+  }
+
+  // settle the request matching a reply frame, returns false if unknown
+  settle(frame: ResponseFrame): boolean {
+    const entry = this.pending.get(frame.id);
+    if (!entry) return false;
+
+    if (frame.error !== undefined && frame.error !== null) {
+      const message =
+        typeof frame.error === "string"
+          ? frame.error
+          : (frame.error as { message?: string }).message ??
+            `request ${entry.event} failed`;
+      this.reject(
+        frame.id,
+        new RequestError("remote", entry.event, message, frame.error)
+      );
+    } else {
+      this.pending.delete(frame.id);
+      entry.cleanup();
+      entry.resolve(frame.data);
+    }
+    return true;
+  }
+
+  reject(id: string, error: RequestError) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    entry.cleanup();
+    entry.reject(error);
+  }
+
+  // reject everything in flight, e.g. when the connection drops
+  rejectAll(reason: RequestErrorReason, message: string) {
+    for (const [id, entry] of Array.from(this.pending)) {
+      this.reject(id, new RequestError(reason, entry.event, message));
+    }
+  }
+}
@@ -1,85 +1,334 @@
-import fileDownload from "js-file-download";
-import { Context, createContext, useEffect, useState } from "react";
+import {
+  Context,
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 import { v4 as uuid } from "uuid";
+import {
+  applyAuth,
+  AuthProvider,
+  DEFAULT_AUTH_FAILURE_CODES,
+  SessionAuth,
+} from "./auth";
+import {
+  BinaryEnvelope,
+  BinaryFraming,
+  decodeBinaryEnvelope,
+  encodeBinaryEnvelope,
+} from "./binary-envelope";
+import {
+  CloseCodeRule,
+  CloseInfo,
+  DEFAULT_CLOSE_CODE_RULES,
+  resolveClosePolicy,
+} from "./close-policy";
+import { Codec, Frame, jsonCodec } from "./codec";
+import {
+  DOWNLOAD_ABORT_EVENT,
+  DOWNLOAD_CANCEL_EVENT,
+  DOWNLOAD_CHUNK_EVENT,
+  DOWNLOAD_END_EVENT,
+  DOWNLOAD_START_EVENT,
+  DownloadInfo,
+  DownloadProgress,
+  Downloads,
+  DownloadSinkFactory,
+  saveFileSink,
+} from "./download";
+import {
+  Endpoints,
+  EndpointStrategy,
+  REDIRECT_EVENT,
+  RedirectPayload,
+} from "./endpoints";
+import {
+  Heartbeat,
+  HeartbeatOptions,
+  PING_EVENT,
+  PingPayload,
+  PONG_EVENT,
+} from "./heartbeat";
+import { hydrateEvent, SyncSnapshot } from "./hydration";
+import { defaultLogger, Logger } from "./logger";
+import { Middleware, runMiddleware } from "./middleware";
+import {
+  OutboundMessage,
+  OutboundQueue,
+  OutboundQueueOptions,
+  QueuedMessage,
+} from "./outbound-queue";
+import { exponentialBackoff, ReconnectPolicy } from "./reconnect";
+import {
+  PendingRequests,
+  RESPONSE_EVENT,
+  RequestError,
+  RequestHandler,
+  RequestOptions,
+  ResponseFrame,
+} from "./request";
+import {
+  isSystemEvent,
+  SystemEvent,
+  SystemEventData,
+  SystemHandlers,
+} from "./system-handlers";
+import {
+  defaultToastMessages,
+  ToastAdapter,
+  ToastKind,
+  ToastMessages,
+  ToastOptions,
+} from "./toast";
+import {
+  ChannelSocket,
+  ReadyState,
+  Transport,
+  TransportCloseEvent,
+  TransportFactory,
+  TransportMessageEvent,
+  webSocketTransport,
+} from "./transport";
+import { Upload, UploadOptions, UploadProgress, UploadSource } from "./upload";
+import { decodeBase64 } from "./utils/base64";
 import { useLocalStorage, useSessionStorage } from "./utils/useStorage";
 
+let toastIds = 0;
+
 export const DefaultSessionContext = createContext<Session | null>(null);
 
 export interface SessionOptions {
-  url: string;
+  // one endpoint, or several to pick from for each attempt, see endpointStrategy
+  url: string | string[];
   label?: string;
-  toast?: any;
+  // where connection notifications go (default: none)
+  toast?: ToastAdapter | null;
+  // texts of the notifications, e.g. localized (default defaultToastMessages)
+  toastMessages?: Partial<ToastMessages>;
   binaryType?: BinaryType;
   minRetryInterval?: number;
   maxRetryInterval?: number;
   override?: boolean;
+  // buffer messages sent while disconnected and flush them on (re)connect
+  outboundQueue?: boolean | OutboundQueueOptions;
+  // called when an init handler throws or rejects
+  onInitError?: (key: string, error: unknown) => void;
+  // default timeout of request() in ms
+  requestTimeout?: number;
+  // serialization of frames on the wire (default: jsonCodec)
+  codec?: Codec;
+  // creates the underlying connection (default: browser WebSocket)
+  transport?: TransportFactory;
+  // ping the server periodically to detect dead connections and measure RTT
+  heartbeat?: boolean | HeartbeatOptions;
+  // how to pick the endpoint of each attempt when url is a list (default
+  // "failover")
+  endpointStrategy?: EndpointStrategy;
+  // _REDIRECT only moves to the configured urls (the credentials of getAuth
+  // go along), unless this returns true for another one
+  allowRedirect?: (url: string) => boolean;
+  // delay between reconnect attempts (default: exponentialBackoff from
+  // minRetryInterval to maxRetryInterval with equal jitter, never giving up)
+  reconnect?: ReconnectPolicy;
+  // ms to wait for a connection attempt to open before retrying (default: no limit)
+  connectTimeout?: number;
+  // retry immediately when the browser comes back online (default true)
+  reconnectOnOnline?: boolean;
+  // hold off scheduled retries while the tab is hidden (default false)
+  deferWhileHidden?: boolean;
+  // credentials for each connection attempt, see SessionAuth
+  getAuth?: AuthProvider;
+  // close codes that make the session refresh its credentials and retry
+  // (default DEFAULT_AUTH_FAILURE_CODES)
+  authFailureCodes?: number[];
+  // what to do after the server closes with a given code, checked in order
+  // before authFailureCodes and DEFAULT_CLOSE_CODE_RULES
+  closeCodePolicies?: CloseCodeRule[];
+  // Sec-WebSocket-Protocol subprotocols to request
+  protocols?: string | string[];
+  // where log messages go (default defaultLogger), namespaced "session"
+  logger?: Logger;
+  // where downloads from the server go (default saveFileSink)
+  downloadSink?: DownloadSinkFactory;
+  // how sendBinary frames binary events (default "pair"), incoming envelopes
+  // are recognized either way as long as binaryType is "arraybuffer"
+  binaryFraming?: BinaryFraming;
+  // replace or extend the built-in handling of _DISCONNECT, _DOWNLOAD and
+  // _TOAST, see SystemHandler
+  systemHandlers?: SystemHandlers;
 }
 
+// separates the channel name from the event type on the wire, e.g. "docs/_PATCH:doc"
+export const CHANNEL_SEPARATOR = "/";
+
+// see Session.channel, the connection itself is the parent session's
+export type ChannelOptions = Pick<
+  SessionOptions,
+  | "label"
+  | "toast"
+  | "toastMessages"
+  | "override"
+  | "outboundQueue"
+  | "onInitError"
+  | "requestTimeout"
+  | "logger"
+  | "downloadSink"
+  | "systemHandlers"
+>;
+
+// runs after every successful (re)connect, may be async
+export type InitHandler = () => void | Promise<void>;
+
+// additive subscriber for an event, see Session.on
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type SessionEventListener = (data: any) => void;
+type ListenerEntry = { listener: SessionEventListener; once: boolean };
+
+// lifecycle of the connection, see Session.connectionState
+// `close` describes how the last connection was closed, if it was closed by
+// the server or the network
+export type ConnectionState =
+  | { status: "idle" } // connect() was never called
+  | { status: "connecting"; attempt: number } // attempt 0 is the initial connect
+  | { status: "open" }
+  | {
+      status: "reconnecting";
+      attempt: number;
+      nextAttemptAt: number; // epoch ms
+      close?: CloseInfo;
+    }
+  | { status: "closed"; close?: CloseInfo } // no retries
+  | { status: "failed"; attempts: number; close?: CloseInfo }; // the reconnect policy gave up
+
+const IDLE: ConnectionState = { status: "idle" };
+
 interface SessionProviderProps {
-  url: string;
+  url: string | string[];
+  endpointStrategy?: EndpointStrategy;
   label?: string;
   children: React.ReactNode;
   context?: Context<Session | null>;
   autoconnect?: boolean;
   wsAuth?: boolean;
-  toast?: any;
+  toast?: ToastAdapter | null;
+  toastMessages?: Partial<ToastMessages>;
   binaryType?: BinaryType;
+  binaryFraming?: BinaryFraming;
+  getAuth?: AuthProvider;
+  protocols?: string | string[];
+  downloadSink?: DownloadSinkFactory;
+  systemHandlers?: SystemHandlers;
+  logger?: Logger;
+  snapshot?: SyncSnapshot; // hydrated into the session when it is created
 }
 
 export const SessionProvider = ({
   url,
+  endpointStrategy,
   label,
   toast,
+  toastMessages,
+  getAuth,
+  protocols,
+  downloadSink,
+  systemHandlers,
+  logger,
+  snapshot,
   children,
   context = DefaultSessionContext,
   autoconnect = false,
   wsAuth = false,
   binaryType = "blob",
+  binaryFraming,
 }: SessionProviderProps) => {
-  // Initialize session
-  const [session, setSession] = useState<Session | null>(null);
+  const log = (logger ?? defaultLogger).child("session");
+  // compared by value, a list literal is a new array on every render
+  const urls = ([] as string[]).concat(url).join(" ");
+
+  const createSession = () => {
+    log.debug(`Creating new session for ${label || "Server"} at ${url}`);
+    const newSession = new Session({
+      url,
+      endpointStrategy,
+      label,
+      toast,
+      toastMessages,
+      binaryType,
+      binaryFraming,
+      getAuth,
+      protocols,
+      downloadSink,
+      systemHandlers,
+      logger,
+    });
+    if (snapshot) newSession.hydrate(snapshot);
+    return newSession;
+  };
+
+  // Initialize session during the first render, so that it is in the context
+  // right away, also when rendering on the server
+  const [session, setSession] = useState<Session>(createSession);
+  const createdFor = useRef({ urls, endpointStrategy });
 
   // When the URL changes, create a new session and update state
   useEffect(() => {
-    console.info(
-      `[WS Session] Creating new session for ${label || "Server"} at ${url}`
-    );
-    const newSession = new Session({ url, label, toast, binaryType });
-    setSession(newSession);
+    const created = createdFor.current;
+    if (
+      created.urls === urls &&
+      created.endpointStrategy === endpointStrategy
+    ) {
+      return;
+    }
+    createdFor.current = { urls, endpointStrategy };
+    setSession(createSession());
+  }, [urls, endpointStrategy]);
 
+  // Disconnect a replaced session, and on unmount
+  useEffect(() => {
     return () => {
-      console.info(
-        `[WS Session] Disconnecting session for ${label || "Server"} at ${url}`
-      );
-      newSession.disconnect();
+      log.debug(`Disconnecting session for ${label || "Server"} at ${url}`);
+      session.disconnect();
     };
-  }, [url]);
+  }, [session]);
 
-  // When label or toast changes, update the session
+  // When label, toast, getAuth, downloadSink or systemHandlers changes, update
+  // the session (a new token provider takes effect on the next connection
+  // attempt, without a rebuild)
   useEffect(() => {
     if (session) {
-      console.info(
-        `[WS Session] Updating label and/or toast reference for ${
+      log.debug(
+        `Updating label and/or toast reference for ${
           label || "Server"
         } at ${url}`
       );
       session.label = label || "Server";
-      session.toast = toast;
+      session.toast = toast ?? null;
+      session.toastMessages = { ...defaultToastMessages, ...toastMessages };
+      session.getAuth = getAuth;
+      session.downloadSink = downloadSink ?? saveFileSink;
+      session.systemHandlers = systemHandlers ?? {};
     }
-  }, [label, toast, session]);
+  }, [
+    label,
+    toast,
+    toastMessages,
+    getAuth,
+    downloadSink,
+    systemHandlers,
+    session,
+  ]);
 
   // Autoconnect on mount
   useEffect(() => {
     if (autoconnect && session) {
-      console.info(
-        `[WS Session] Autoconnecting session for ${label || "Server"} at ${url}`
-      );
+      log.debug(`Autoconnecting session for ${label || "Server"} at ${url}`);
       const cleanup = session.connect(); // connect the session
       return () => {
-        console.info(
-          `[WS Session] Auto-disconnecting session for ${
-            label || "Server"
-          } at ${url}`
+        log.debug(
+          `Auto-disconnecting session for ${label || "Server"} at ${url}`
         );
         cleanup?.();
       };
@@ -108,12 +357,12 @@ export const SessionProvider = ({
         if (u === null) {
           u = uuid();
           setUserId(u);
-          console.info("[WS Session] Generated new user ID:", u);
+          log.info("Generated new user ID:", u);
         }
         if (s === null) {
           s = uuid();
           setSessionId(s);
-          console.info("[WS Session] Generated new session ID:", s);
+          log.info("Generated new session ID:", s);
         }
 
         // console.debug("[WS Session] Sending _USER_SESSION event with IDs");
@@ -132,42 +381,160 @@ export const SessionProvider = ({
 };
 
 export class Session {
-  url: string; // TODO: make readonly? or use a setter?
+  url: string; // endpoint of the current or next attempt. TODO: make readonly? or use a setter?
   label: string;
-  ws: WebSocket | null = null;
+  ws: Transport | null = null;
   binaryType: BinaryType;
+  binaryFraming: BinaryFraming;
 
   isConnected: boolean = false;
-  onConnectionChange?: (isConnected: boolean) => void = undefined;
+  onConnectionChange?: (isConnected: boolean) => void = undefined; // single slot, see subscribeConnectionState
   minRetryInterval: number;
   maxRetryInterval: number;
   retryInterval: number;
-  toast: any;
+  toast: ToastAdapter | null;
+  toastMessages: ToastMessages;
+  getAuth?: AuthProvider; // may be replaced at any time, used from the next attempt on
+  protocols: string[];
+  downloadSink: DownloadSinkFactory; // used for downloads started from now on
+  systemHandlers: SystemHandlers;
+  readonly logger: Logger; // root logger, Sync and the stores log to children of it
 
+  private log: Logger;
+  private toastId: string; // connection notifications replace each other
   private eventHandlers: { [event: string]: (data: any) => void } = {};
-  private initHandlers: { [key: string]: () => void } = {};
+  private eventListeners: Map<string, ListenerEntry[]> = new Map();
+  private initHandlers: Map<string, InitHandler> = new Map(); // run in registration order
+  private hydration: Map<string, unknown> = new Map(); // see hydrate
   private binaryHandler: ((data: any) => void) | null = null;
   private binData: any | null = null; // metadata for the next binary message
   private retryTimeout: ReturnType<typeof setTimeout> | null = null; // scheduled retry
   private autoReconnect: boolean = true;
   private defaultOverride: boolean = false;
+  private outboundQueue: OutboundQueue | null = null;
+  private onInitError?: (key: string, error: unknown) => void;
+  private pendingRequests: PendingRequests = new PendingRequests();
+  private requestHandlers: Map<string, RequestHandler> = new Map(); // see onRequest
+  private downloads: Downloads;
+  private middleware: Middleware[] = [];
+  private channels: Map<string, Session> = new Map();
+  private channelParent: { session: Session; prefix: string } | null = null; // set on channels
+  private stoppedWithParent: boolean = false; // channels, until the parent opens again
+  private requestTimeout: number;
+  private codec: Codec;
+  private transport: TransportFactory;
+  private heartbeat: Heartbeat | null = null;
+  private _rtt: number | null = null;
+  private rttSubscribers: Set<() => void> = new Set();
+  private reconnectPolicy: ReconnectPolicy;
+  private reconnectAttempt: number = 0; // attempts since the last successful open
+  private endpoints: Endpoints;
+  private redirected: boolean = false; // the server sent _REDIRECT, reconnect right away
+  private allowRedirect?: (url: string) => boolean;
+  private connectTimeout: number | null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectOnOnline: boolean;
+  private deferWhileHidden: boolean;
+  private removeRetryListeners: (() => void) | null = null;
+  private closeCodeRules: CloseCodeRule[];
+  private _lastClose: CloseInfo | null = null;
+  private authRejected: boolean = false; // server rejected the last credentials
+  private connectGeneration: number = 0;
+  private _connectionState: ConnectionState = IDLE;
+  private connectionStateSubscribers: Set<(state: ConnectionState) => void> =
+    new Set();
 
   constructor(options: SessionOptions) {
-    this.url = options.url;
+    this.logger = options.logger ?? defaultLogger;
+    this.log = this.logger.child("session");
+    this.endpoints = new Endpoints(
+      ([] as string[]).concat(options.url),
+      options.endpointStrategy ?? "failover"
+    );
+    this.url = this.endpoints.current;
+    this.allowRedirect = options.allowRedirect;
     this.label = options.label ?? "Server";
     this.toast = options.toast ?? null;
+    this.toastMessages = { ...defaultToastMessages, ...options.toastMessages };
+    this.toastId = `ws-sync-${++toastIds}`;
+    this.codec = options.codec ?? jsonCodec;
+    this.transport = options.transport ?? webSocketTransport;
+    if (options.heartbeat) {
+      this.heartbeat = new Heartbeat(
+        options.heartbeat === true ? {} : options.heartbeat,
+        (payload) => this.send(PING_EVENT, payload),
+        (rtt) => this.setRtt(rtt),
+        () => this.dropConnection(`No heartbeat response from ${this.label}`)
+      );
+    }
+    this.downloadSink = options.downloadSink ?? saveFileSink;
+    this.systemHandlers = options.systemHandlers ?? {};
+    this.downloads = new Downloads(this.log, (id) => {
+      if (this.isConnected) this.send(DOWNLOAD_CANCEL_EVENT, { id });
+    });
+    this.binaryFraming = options.binaryFraming ?? "pair";
     this.binaryType = options.binaryType ?? "blob";
+    if (this.codec.binary && this.binaryType !== "arraybuffer") {
+      // binary frames must be decoded synchronously to preserve message order
+      if (options.binaryType !== undefined) {
+        this.log.warn(
+          `codec=${this.codec.name} requires binaryType "arraybuffer", ignoring "${options.binaryType}"`
+        );
+      }
+      this.binaryType = "arraybuffer";
+    } else if (
+      this.binaryFraming === "envelope" &&
+      this.binaryType !== "arraybuffer"
+    ) {
+      // same for envelopes, the header must be read before dispatching
+      if (options.binaryType !== undefined) {
+        this.log.warn(
+          `binaryFraming="envelope" requires binaryType "arraybuffer", ignoring "${options.binaryType}"`
+        );
+      }
+      this.binaryType = "arraybuffer";
+    }
     this.minRetryInterval = options.minRetryInterval ?? 250;
     this.maxRetryInterval = options.maxRetryInterval ?? 10000;
     this.retryInterval = this.minRetryInterval;
+    this.reconnectPolicy =
+      options.reconnect ??
+      exponentialBackoff({
+        minDelay: this.minRetryInterval,
+        maxDelay: this.maxRetryInterval,
+        jitter: "equal",
+      });
+    this.connectTimeout = options.connectTimeout ?? null;
+    this.reconnectOnOnline = options.reconnectOnOnline ?? true;
+    this.deferWhileHidden = options.deferWhileHidden ?? false;
+    this.getAuth = options.getAuth;
+    this.closeCodeRules = [
+      ...(options.closeCodePolicies ?? []),
+      {
+        codes: options.authFailureCodes ?? DEFAULT_AUTH_FAILURE_CODES,
+        policy: "reauth",
+      },
+      ...DEFAULT_CLOSE_CODE_RULES,
+    ];
+    this.protocols =
+      options.protocols === undefined
+        ? []
+        : ([] as string[]).concat(options.protocols);
     this.defaultOverride = options.override ?? false;
+    this.onInitError = options.onInitError;
+    this.requestTimeout = options.requestTimeout ?? 30000;
+    if (options.outboundQueue) {
+      this.outboundQueue = new OutboundQueue(
+        options.outboundQueue === true ? {} : options.outboundQueue
+      );
+    }
   }
 
   registerEvent(event: string, callback: (data: any) => void, override?: boolean) {
     const shouldOverride = override ?? this.defaultOverride;
     if (event in this.eventHandlers && !shouldOverride) {
-      console.error(
-        `[WS Session] Attempted to registerEvent for ${event}, but handler already exists`
+      this.log.error(
+        `Attempted to registerEvent for ${event}, but handler already exists`
       );
       throw new Error(`already subscribed to ${event}`);
     }
@@ -176,41 +543,75 @@ export class Session {
 
   deregisterEvent(event: string) {
     if (!(event in this.eventHandlers)) {
-      console.error(
-        `[WS Session] Attempted to deregisterEvent for ${event}, but no handler was found`
+      this.log.error(
+        `Attempted to deregisterEvent for ${event}, but no handler was found`
       );
       throw new Error(`not subscribed to ${event}`);
     }
     delete this.eventHandlers[event];
   }
 
-  registerInit(key: string, callback: () => void, override?: boolean) {
+  // Subscribe to an event alongside any other subscribers and the exclusive
+  // registerEvent handler. Returns an unsubscribe function.
+  on(event: string, listener: SessionEventListener): () => void {
+    return this.addListener(event, { listener, once: false });
+  }
+
+  // Like on(), but the listener is removed after its first invocation
+  once(event: string, listener: SessionEventListener): () => void {
+    return this.addListener(event, { listener, once: true });
+  }
+
+  // Remove a listener added with on() or once(), no-op if not subscribed
+  off(event: string, listener: SessionEventListener) {
+    const entry = this.eventListeners
+      .get(event)
+      ?.find((e) => e.listener === listener);
+    if (entry) this.removeListener(event, entry);
+  }
+
+  private addListener(event: string, entry: ListenerEntry): () => void {
+    const entries = this.eventListeners.get(event) ?? [];
+    entries.push(entry);
+    this.eventListeners.set(event, entries);
+    return () => this.removeListener(event, entry);
+  }
+
+  private removeListener(event: string, entry: ListenerEntry) {
+    const entries = this.eventListeners.get(event);
+    if (!entries) return;
+    const index = entries.indexOf(entry);
+    if (index !== -1) entries.splice(index, 1);
+    if (entries.length === 0) this.eventListeners.delete(event);
+  }
+
+  registerInit(key: string, callback: InitHandler, override?: boolean) {
     const shouldOverride = override ?? this.defaultOverride;
-    if (key in this.initHandlers && !shouldOverride) {
-      console.error(
-        `[WS Session] Attempted to registerInit with key=${key}, but initHandler already exists`
+    if (this.initHandlers.has(key) && !shouldOverride) {
+      this.log.error(
+        `Attempted to registerInit with key=${key}, but initHandler already exists`
       );
       throw new Error(`already registered`);
     }
-    console.debug(`[WS Session] registeInit for key=${key}`);
-    this.initHandlers[key] = callback;
+    this.log.debug(`registeInit for key=${key}`);
+    this.initHandlers.set(key, callback);
   }
 
   deregisterInit(key: string) {
-    if (!(key in this.initHandlers)) {
-      console.error(
-        `[WS Session] Attempted to deregisterInit for key=${key}, but it was not registered`
+    if (!this.initHandlers.has(key)) {
+      this.log.error(
+        `Attempted to deregisterInit for key=${key}, but it was not registered`
       );
       throw new Error(`not registered`);
     }
-    delete this.initHandlers[key];
+    this.initHandlers.delete(key);
   }
 
   registerBinary(callback: (data: any) => void, override?: boolean) {
     const shouldOverride = override ?? this.defaultOverride;
     if (this.binaryHandler !== null && !shouldOverride) {
-      console.error(
-        `[WS Session] Attempted to registerBinary, but a binary handler is already registered`
+      this.log.error(
+        `Attempted to registerBinary, but a binary handler is already registered`
       );
       throw new Error(`already registered`);
     }
@@ -219,8 +620,8 @@ export class Session {
 
   deregisterBinary() {
     if (this.binaryHandler === null) {
-      console.error(
-        `[WS Session] Attempted to deregisterBinary, but no binary handler was registered`
+      this.log.error(
+        `Attempted to deregisterBinary, but no binary handler was registered`
       );
       throw new Error(`not registered`);
     }
@@ -228,11 +629,8 @@ export class Session {
   }
 
   send(event: string, data: any) {
-    if (this.ws?.readyState !== WebSocket.OPEN) {
-      console.warn(
-        `[WS Session] Attempted to send event=${event} while socket not OPEN`
-      );
-      this.toast?.error(`${this.label}: Sending while not connected!`);
+    if (this.ws?.readyState !== ReadyState.OPEN) {
+      this.handleNotConnected({ kind: "event", event, data });
       return;
     }
 
@@ -240,20 +638,12 @@ export class Session {
     //   `[WS Session] Sending event=${event} to ${this.label} with data:`,
     //   data
     // );
-    this.ws?.send(
-      JSON.stringify({
-        type: event,
-        data: data,
-      })
-    );
+    this.transmit({ type: event, data: data });
   }
 
   sendBinary(event: string, metadata: any, data: ArrayBuffer) {
-    if (this.ws?.readyState !== WebSocket.OPEN) {
-      console.warn(
-        `[WS Session] Attempted to sendBinary event=${event} while socket not OPEN`
-      );
-      this.toast?.error(`${this.label}: Sending while not connected!`);
+    if (this.ws?.readyState !== ReadyState.OPEN) {
+      this.handleNotConnected({ kind: "binary", event, metadata, data });
       return;
     }
 
@@ -261,94 +651,659 @@ export class Session {
     //   `[WS Session] Sending binary event=${event} to ${this.label}, metadata=`,
     //   metadata
     // );
-    this.ws?.send(
-      JSON.stringify({
-        type: "_BIN_META",
-        data: {
-          type: event,
-          metadata: metadata,
-        },
-      })
+    this.transmit({ type: event, data: metadata, binary: data });
+  }
+
+  // downloads in progress, see DOWNLOAD_START_EVENT
+  get activeDownloads(): DownloadProgress[] {
+    return this.downloads.list;
+  }
+
+  subscribeDownloads(callback: () => void): () => void {
+    return this.downloads.subscribe(callback);
+  }
+
+  // stop a download in progress, its sink is aborted
+  cancelDownload(id: string) {
+    if (this.downloads.cancel(id) && this.isConnected) {
+      this.send(DOWNLOAD_CANCEL_EVENT, { id });
+    }
+  }
+
+  // bytes handed to the transport but not yet sent, 0 if unknown
+  get bufferedAmount(): number {
+    if (this.channelParent !== null) {
+      return this.channelParent.session.bufferedAmount;
+    }
+    return this.ws?.bufferedAmount ?? 0;
+  }
+
+  // Send a large binary payload in chunks, see UPLOAD_START_EVENT. The server
+  // handles the assembled upload like sendBinary(event, metadata, data).
+  upload(
+    event: string,
+    metadata: unknown,
+    source: UploadSource,
+    options?: UploadOptions
+  ): Upload {
+    return new Upload(this, event, metadata, source, options);
+  }
+
+  // Send an event and wait for the server's reply, correlated by a unique id in
+  // the envelope. Rejects with a RequestError on timeout, abort, disconnect or
+  // when the server replies with an error.
+  request<T = unknown>(
+    event: string,
+    data: unknown,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    if (this.ws?.readyState !== ReadyState.OPEN) {
+      return Promise.reject(
+        new RequestError(
+          "disconnected",
+          event,
+          `${this.label}: cannot send request ${event} while not connected`
+        )
+      );
+    }
+
+    const id = uuid();
+    const response = this.pendingRequests.add<T>(
+      id,
+      event,
+      options.timeout ?? this.requestTimeout,
+      options.signal
+    );
+    if (!options.signal?.aborted) {
+      this.transmit({ type: event, data, id });
+    }
+    return response;
+  }
+
+  // The other direction of request(): answer the server's requests of an
+  // event, i.e. frames that carry an id, with { type: "_RESPONSE", id, data }.
+  // A throwing or rejecting handler is answered with its message as the error.
+  // Returns a function that removes the handler.
+  onRequest<T>(event: string, handler: RequestHandler<T>): () => void {
+    if (this.requestHandlers.has(event)) {
+      this.log.error(
+        `Attempted to handle requests of ${event}, but a handler exists`
+      );
+      throw new Error(`already handling requests of ${event}`);
+    }
+    this.requestHandlers.set(event, handler as RequestHandler);
+    return () => {
+      if (this.requestHandlers.get(event) === handler) {
+        this.requestHandlers.delete(event);
+      }
+    };
+  }
+
+  private async answerRequest(frame: Frame) {
+    const { type, id } = frame;
+    const handler = this.requestHandlers.get(type);
+    if (handler === undefined) return;
+    let reply: Frame;
+    try {
+      reply = { type: RESPONSE_EVENT, id, data: await handler(frame.data) };
+    } catch (err) {
+      this.log.warn(`request ${type} id=${id} failed:`, err);
+      const error = err instanceof Error ? err.message : String(err);
+      reply = { type: RESPONSE_EVENT, id, error };
+    }
+    this.transmit(reply); // dropped with a warning if disconnected meanwhile
+  }
+
+  // add a middleware, returns a function that removes it again. Outbound
+  // middleware runs in the order added, inbound in reverse order, so that e.g.
+  // the first middleware encrypts last and decrypts first.
+  use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  // A scoped session sharing this session's connection. Its events are
+  // prefixed with `${name}/` on the wire and only its own handlers see them, so
+  // stores with the same key can live on different channels. The channel is
+  // connected while this session is; disconnect() it to stop receiving.
+  channel(name: string, options: ChannelOptions = {}): Session {
+    if (name === "" || name.includes(CHANNEL_SEPARATOR)) {
+      throw new Error(`invalid channel name "${name}"`);
+    }
+    const existing = this.channels.get(name);
+    if (existing !== undefined) return existing;
+
+    const channel = new Session({
+      logger: this.logger,
+      ...options,
+      url: this.url,
+      label: options.label ?? `${this.label}${CHANNEL_SEPARATOR}${name}`,
+      transport: (url) => {
+        const socket = new ChannelSocket(url);
+        if (this.isConnected) socket.parentOpened();
+        return socket;
+      },
+      // wait for the parent session to reconnect, it does the backing off
+      reconnect: { nextDelay: () => 0 },
+      reconnectOnOnline: false,
+    });
+    channel.channelParent = { session: this, prefix: name + CHANNEL_SEPARATOR };
+    this.channels.set(name, channel);
+    channel.connect();
+    return channel;
+  }
+
+  // disconnect a channel and forget it, channel(name) creates a new one
+  closeChannel(name: string) {
+    const channel = this.channels.get(name);
+    if (channel === undefined) return;
+    this.channels.delete(name);
+    channel.disconnect();
+  }
+
+  private openChannels() {
+    for (const channel of Array.from(this.channels.values())) {
+      if (channel.stoppedWithParent) {
+        channel.stoppedWithParent = false;
+        channel.connect();
+      } else if (channel.ws instanceof ChannelSocket) {
+        channel.ws.parentOpened();
+      }
+    }
+  }
+
+  // The parent stopped reconnecting, its channels stop in the same state
+  // instead of waiting for it. openChannels() connects them again.
+  private stopChannels(state: ConnectionState) {
+    for (const channel of Array.from(this.channels.values())) {
+      if (!channel.autoReconnect) continue; // disconnected on its own
+      channel.stop();
+      channel.stoppedWithParent = true;
+      channel.setConnectionState(state);
+    }
+  }
+
+  private closeChannels() {
+    for (const channel of Array.from(this.channels.values())) {
+      if (channel.ws instanceof ChannelSocket) {
+        channel.ws.parentClosed(1001, `Disconnected from ${this.label}`);
+      }
+    }
+  }
+
+  // hand a frame with a channel prefix to its channel, false if there is none
+  private routeToChannel(frame: Frame): boolean {
+    const separator = frame.type.indexOf(CHANNEL_SEPARATOR);
+    if (separator === -1) return false;
+    const channel = this.channels.get(frame.type.slice(0, separator));
+    if (channel === undefined) return false;
+    if (channel.isConnected) {
+      channel.receiveFrame({ ...frame, type: frame.type.slice(separator + 1) });
+    }
+    return true;
+  }
+
+  private transmit(frame: Frame) {
+    runMiddleware(
+      this.middleware.flatMap((m) => (m.outbound ? [m.outbound] : [])),
+      frame,
+      (f) => this.write(f),
+      (err) =>
+        this.log.error(`outbound middleware dropped event=${frame.type}:`, err)
     );
+  }
+
+  private write(frame: Frame) {
+    const ws = this.ws;
+    if (ws?.readyState !== ReadyState.OPEN) {
+      // a middleware held the frame back until the connection was gone
+      this.log.warn(
+        `Dropping event=${frame.type}, not connected to ${this.label}`
+      );
+      return;
+    }
+    if (this.channelParent !== null) {
+      const { session, prefix } = this.channelParent;
+      session.transmit({ ...frame, type: prefix + frame.type });
+      return;
+    }
+
+    const { binary, ...rest } = frame;
+    if (binary === undefined) {
+      ws.send(this.codec.encode(rest));
+    } else if (this.binaryFraming === "envelope") {
+      if (binary instanceof Blob) {
+        this.log.error(
+          `Cannot send a Blob in a binary envelope, dropping event=${frame.type}`
+        );
+        return;
+      }
+      ws.send(encodeBinaryEnvelope(frame.type, frame.data, binary));
+    } else {
+      ws.send(
+        this.codec.encode({
+          type: "_BIN_META",
+          data: { type: frame.type, metadata: frame.data },
+        })
+      );
+      ws.send(binary);
+    }
+  }
+
+  // Seed the synced states with a snapshot from the server-side render, keyed
+  // like the stores. Existing stores are replaced locally, stores and hooks
+  // created later start from it, until the server's first _SET for the key.
+  hydrate(snapshot: SyncSnapshot) {
+    for (const [key, state] of Object.entries(snapshot)) {
+      this.hydration.set(key, state);
+      this.dispatch(hydrateEvent(key), state);
+    }
+  }
+
+  // the snapshot state of a key, undefined if none or already replaced
+  hydratedState(key: string): unknown {
+    return this.hydration.get(key);
+  }
+
+  // the server sent the current state of a key, its snapshot is stale
+  releaseHydratedState(key: string) {
+    this.hydration.delete(key);
+  }
+
+  // show a notification, by default replacing the current connection one
+  private notify(kind: ToastKind, message: string, options?: ToastOptions) {
+    this.toast?.[kind](message, { id: this.toastId, ...options });
+  }
+
+  // messages buffered while disconnected, oldest first
+  getQueuedMessages(): QueuedMessage[] {
+    return this.outboundQueue?.peek() ?? [];
+  }
 
-    this.ws?.send(data);
+  // discard all buffered messages, returns how many were discarded
+  clearQueue(): number {
+    return this.outboundQueue?.clear() ?? 0;
+  }
+
+  private handleNotConnected(message: OutboundMessage) {
+    if (this.outboundQueue === null) {
+      this.log.warn(
+        `Attempted to send event=${message.event} while socket not OPEN`
+      );
+      this.notify(
+        "error",
+        this.toastMessages.sendWhileDisconnected(this.label),
+        { id: `${this.toastId}-send` }
+      );
+      return;
+    }
+
+    const dropped = this.outboundQueue.enqueue(message);
+    if (dropped.length > 0) {
+      this.log.warn(
+        `Outbound queue dropped ${dropped.length} message(s):`,
+        dropped.map((m) => m.event)
+      );
+    }
+  }
+
+  // send everything that was buffered while disconnected, in order
+  private flushQueue() {
+    if (this.outboundQueue === null || this.outboundQueue.size === 0) return;
+
+    for (const message of this.outboundQueue.drain()) {
+      if (message.kind === "event") {
+        this.send(message.event, message.data);
+      } else {
+        this.sendBinary(message.event, message.metadata, message.data);
+      }
+    }
   }
 
   connect() {
     // console.info(`[WS Session] Connecting to ${this.label} at ${this.url}`);
-    this.toast?.info(`Connecting to ${this.label}...`);
+    this.notify("info", this.toastMessages.connecting(this.label));
 
-    this.ws = new WebSocket(this.url);
-    this.ws.binaryType = this.binaryType;
     this.autoReconnect = true;
+    this.cancelReconnect();
+    this.setConnectionState({
+      status: "connecting",
+      attempt: this.reconnectAttempt,
+    });
+
+    const getAuth = this.getAuth;
+    if (getAuth === undefined) {
+      this.open(null);
+    } else {
+      // credentials are fetched asynchronously, a newer connect() or a
+      // disconnect() in the meantime supersedes this attempt
+      const generation = ++this.connectGeneration;
+      Promise.resolve()
+        .then(() =>
+          getAuth({
+            attempt: this.reconnectAttempt,
+            refresh: this.authRejected,
+          })
+        )
+        .then(
+          (auth) => {
+            if (generation !== this.connectGeneration) return;
+            this.open(auth);
+          },
+          (err) => {
+            if (generation !== this.connectGeneration) return;
+            this.log.error(`getAuth failed for ${this.label}, retrying:`, err);
+            this.handleClose();
+          }
+        );
+    }
+
+    return () => {
+      this.disconnect();
+    };
+  }
+
+  private open(auth: SessionAuth | null) {
+    const { url, protocols } = applyAuth(this.url, this.protocols, auth);
+    const ws = this.transport(
+      url,
+      protocols.length > 0 ? protocols : undefined
+    );
+    ws.binaryType = this.binaryType;
+    this.ws = ws;
+    if (this.connectTimeout !== null) {
+      this.connectTimer = setTimeout(() => {
+        this.connectTimer = null;
+        if (this.ws === ws && !this.isConnected) {
+          this.dropConnection(
+            `Connecting to ${this.label} timed out after ${this.connectTimeout}ms`
+          );
+        }
+      }, this.connectTimeout);
+    }
 
     this.ws.onopen = () => {
       // console.info(`[WS Session] onopen - Connected to ${this.label}!`);
-      this.toast?.success(`Connected to ${this.label}!`);
+      this.notify("success", this.toastMessages.connected(this.label));
       this.isConnected = true;
       this.onConnectionChange?.(this.isConnected);
       this.retryInterval = this.minRetryInterval;
+      this.reconnectAttempt = 0;
+      this.authRejected = false;
+      this.clearConnectTimer();
+      this.setConnectionState({ status: "open" });
+      this.heartbeat?.start();
+      this.flushQueue();
+      this.openChannels();
+      this.runInitHandlers(ws);
+    };
+
+    this.ws.onclose = (e) => {
+      if (this.ws !== ws) return; // superseded by a newer connection
+      this.handleClose(e);
+    };
+
+    this.ws.onerror = (err) => {
+      this.log.error("onerror - Socket encountered error:", err);
+      this.notify("error", this.toastMessages.socketError(this.label, err));
+      this.ws?.close();
     };
 
-    this.ws.onclose = () => {
-      // console.warn(`[WS Session] onclose - Disconnected from ${this.label}`);
-      this.isConnected = false;
+    this.ws.onmessage = (e) => {
+      this.handleReceiveEvent(e);
+    };
+  }
+
+  private handleClose(event?: TransportCloseEvent) {
+    // console.warn(`[WS Session] onclose - Disconnected from ${this.label}`);
+    const wasConnected = this.isConnected;
+    const redirected = this.redirected;
+    this.redirected = false;
+    this.isConnected = false;
+    this.ws = null;
+    if (wasConnected) {
       this.onConnectionChange?.(this.isConnected);
+    }
+    this.heartbeat?.stop();
+    this.pendingRequests.rejectAll(
+      "disconnected",
+      `Disconnected from ${this.label}`
+    );
+    this.downloads.failAll(`Disconnected from ${this.label}`);
+    this.closeChannels();
 
-      if (this.autoReconnect) {
-        this.toast?.warning(
-          `Disconnected from ${this.label}: Retrying in ${
-            this.retryInterval / 1000
-          } seconds...`
-        );
+    this.clearConnectTimer();
 
-        // console.debug(
-        //   `[WS Session] Scheduling reconnect in ${this.retryInterval}ms`
-        // );
+    const close: CloseInfo | undefined =
+      event === undefined
+        ? undefined
+        : { code: event.code, reason: event.reason, wasClean: event.wasClean };
+    if (close !== undefined) this._lastClose = close;
 
-        this.retryTimeout = setTimeout(() => {
-          // skip if we've already reconnected or if the session is disposed
-          if (this !== null && this.url && !this.isConnected) {
-            // console.debug(`[WS Session] Reconnect attempt for ${this.label}`);
-            this.connect();
-          }
-        }, this.retryInterval);
+    const policy =
+      close === undefined
+        ? "reconnect"
+        : resolveClosePolicy(this.closeCodeRules, close.code);
+    if (this.autoReconnect && policy === "stop" && close !== undefined) {
+      this.log.warn(
+        `${this.label} closed the connection (code=${close?.code}), not reconnecting`
+      );
+      this.autoReconnect = false;
+      this.notify(
+        "error",
+        this.toastMessages.closedByServer(this.label, close)
+      );
+      this.setConnectionState({ status: "closed", close });
+      return;
+    }
 
-        this.retryInterval = Math.min(
-          this.retryInterval * 2,
-          this.maxRetryInterval
+    if (this.autoReconnect) {
+      if (
+        policy === "reauth" &&
+        this.getAuth !== undefined &&
+        !this.authRejected
+      ) {
+        // retry right away with fresh credentials, but only once in a row
+        this.log.warn(
+          `${this.label} rejected the credentials (code=${close?.code}), refreshing`
         );
-      } else {
-        this.toast?.warning(`Disconnected from ${this.label}!`);
+        this.authRejected = true;
+        this.reconnectAttempt++;
+        this.connect();
+        return;
+      }
+      this.authRejected = this.authRejected || policy === "reauth";
+      if (!redirected && this.endpoints.advance(wasConnected)) {
+        this.url = this.endpoints.current;
       }
-    };
 
-    this.ws.onerror = (err) => {
-      console.error("[WS Session] onerror - Socket encountered error:", err);
-      this.toast?.error(`${this.label}: Socket Error: ${err}`);
-      this.ws?.close();
-    };
+      const attempt = ++this.reconnectAttempt;
+      const delay = redirected
+        ? 0
+        : typeof policy === "object"
+        ? policy.reconnectAfter
+        : this.reconnectPolicy.nextDelay(attempt);
+      if (delay === null) {
+        this.log.warn(
+          `Giving up reconnecting to ${this.label} after ${
+            this.reconnectAttempt - 1
+          } attempts`
+        );
+        this.notify("error", this.toastMessages.gaveUp(this.label));
+        this.setConnectionState({
+          status: "failed",
+          attempts: this.reconnectAttempt - 1,
+          close,
+        });
+        this.reconnectAttempt = 0; // a manual connect() starts over
+        return;
+      }
 
-    this.ws.onmessage = (e) => {
-      this.handleReceiveEvent(e);
+      this.notify(
+        "warning",
+        this.toastMessages.reconnecting(
+          this.label,
+          Math.round(delay / 100) / 10
+        )
+      );
+
+      // console.debug(`[WS Session] Scheduling reconnect in ${delay}ms`);
+      this.scheduleReconnect(delay);
+      this.setConnectionState({
+        status: "reconnecting",
+        attempt: this.reconnectAttempt,
+        nextAttemptAt: Date.now() + delay,
+        close,
+      });
+
+      // informational only: base delay of the default policy for the next attempt
+      this.retryInterval = Math.min(
+        this.retryInterval * 2,
+        this.maxRetryInterval
+      );
+    } else {
+      this.notify("warning", this.toastMessages.disconnected(this.label));
+      this.setConnectionState({ status: "closed", close });
+    }
+  }
+
+  private scheduleReconnect(delay: number) {
+    this.cancelReconnect();
+
+    const retry = () => {
+      // skip if we've already reconnected or if the session is disposed
+      if (!this.autoReconnect || this.isConnected) return;
+      if (this.deferWhileHidden && isDocumentHidden()) {
+        return; // the visibilitychange listener retries once visible
+      }
+      this.cancelReconnect();
+      // console.debug(`[WS Session] Reconnect attempt for ${this.label}`);
+      this.connect();
     };
 
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null;
+      retry();
+    }, delay);
+
+    // retry right away when the network comes back or the tab becomes visible
+    const cleanups: (() => void)[] = [];
+    if (this.reconnectOnOnline && typeof window !== "undefined") {
+      window.addEventListener("online", retry);
+      cleanups.push(() => window.removeEventListener("online", retry));
+    }
+    if (this.deferWhileHidden && typeof document !== "undefined") {
+      const onVisible = () => {
+        if (!isDocumentHidden() && this.retryTimeout === null) retry();
+      };
+      document.addEventListener("visibilitychange", onVisible);
+      cleanups.push(() =>
+        document.removeEventListener("visibilitychange", onVisible)
+      );
+    }
+    this.removeRetryListeners = () => cleanups.forEach((f) => f());
+  }
+
+  private cancelReconnect() {
+    if (this.retryTimeout !== null) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+    this.removeRetryListeners?.();
+    this.removeRetryListeners = null;
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer !== null) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+
+  // A half-open connection may never complete its close handshake, so detach
+  // it and handle the close right away instead of waiting for onclose.
+  private dropConnection(reason: string) {
+    const ws = this.ws;
+    if (ws === null) return;
+
+    this.log.warn(`${reason}, dropping connection`);
+    ws.onopen = null;
+    ws.onclose = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.close();
+    this.ws = null;
+    this.handleClose();
+  }
+
+  // the server asked to move to another endpoint, e.g. during a deploy
+  private redirect({ url, reason }: RedirectPayload) {
+    if (
+      url !== undefined &&
+      !this.endpoints.list.includes(url) &&
+      !this.allowRedirect?.(url)
+    ) {
+      this.log.warn(`Ignoring _REDIRECT to ${url}, not a configured endpoint`);
+      return;
+    }
+    this.endpoints.redirect(url);
+    this.url = this.endpoints.current;
+    this.log.info(
+      `${this.label} redirected to ${this.url}${reason ? `: ${reason}` : ""}`
+    );
+    this.redirected = true;
+    this.dropConnection(`Moving to ${this.url}`);
+  }
+
+  // last measured heartbeat round-trip time in ms, null until measured
+  get rtt(): number | null {
+    return this._rtt;
+  }
+
+  subscribeRtt(callback: () => void): () => void {
+    this.rttSubscribers.add(callback);
     return () => {
-      this.disconnect();
+      this.rttSubscribers.delete(callback);
     };
   }
 
+  private setRtt(rtt: number) {
+    this._rtt = rtt;
+    for (const cb of Array.from(this.rttSubscribers)) {
+      cb();
+    }
+  }
+
   disconnect() {
     // console.info(`[WS Session] Disconnecting from ${this.label}`);
+    this.stop();
+    this.stoppedWithParent = false;
+    const { status } = this._connectionState;
+    if (status !== "idle" && status !== "closed") {
+      this.setConnectionState({ status: "closed" });
+    }
+  }
+
+  // disconnect() without the state change
+  private stop() {
     // Mark disconnected and notify once
     const wasConnected = this.isConnected;
     this.isConnected = false;
     if (wasConnected) {
       this.onConnectionChange?.(this.isConnected);
     }
+    this.pendingRequests.rejectAll(
+      "disconnected",
+      `Disconnected from ${this.label}`
+    );
+    this.downloads.failAll(`Disconnected from ${this.label}`);
+    this.closeChannels();
 
     // Disable auto-reconnect and prevent onclose from firing a second time
     this.autoReconnect = false;
+    this.heartbeat?.stop();
     if (this.ws !== null) {
       this.ws.onopen = null;
       this.ws.onclose = null;
@@ -358,65 +1313,333 @@ export class Session {
       this.ws = null;
     }
 
-    if (this.retryTimeout !== null) {
-      clearTimeout(this.retryTimeout);
-      this.retryTimeout = null;
+    this.cancelReconnect();
+    this.clearConnectTimer();
+    this.connectGeneration++; // cancel a pending getAuth
+  }
+
+  // how the server or network closed the most recent connection
+  get lastClose(): CloseInfo | null {
+    return this._lastClose;
+  }
+
+  get connectionState(): ConnectionState {
+    return this._connectionState;
+  }
+
+  // Notified on every connection state transition, returns unsubscribe
+  subscribeConnectionState(
+    callback: (state: ConnectionState) => void
+  ): () => void {
+    this.connectionStateSubscribers.add(callback);
+    return () => {
+      this.connectionStateSubscribers.delete(callback);
+    };
+  }
+
+  private setConnectionState(state: ConnectionState) {
+    this._connectionState = state;
+    for (const cb of Array.from(this.connectionStateSubscribers)) {
+      try {
+        cb(state);
+      } catch (err) {
+        this.log.error("error in connection state subscriber", err);
+      }
+    }
+    if (state.status === "closed" || state.status === "failed") {
+      this.transport.release?.();
+      this.stopChannels(state);
     }
   }
 
-  handleReceiveEvent(e: MessageEvent) {
-    if (typeof e.data === "string") {
-      const event = JSON.parse(e.data);
+  // Run the init handlers one after another, awaiting async ones. A failing
+  // handler is reported and skipped; the pipeline stops if the socket it was
+  // started for is no longer the current, open one.
+  private async runInitHandlers(ws: Transport) {
+    for (const key of Array.from(this.initHandlers.keys())) {
+      if (this.ws !== ws || !this.isConnected) return;
+      const handler = this.initHandlers.get(key);
+      if (handler === undefined) continue; // deregistered meanwhile
 
-      if (event.type === "_DISCONNECT") {
-        console.info(
-          `[WS Session] Received _DISCONNECT from server for ${this.label}`
-        );
-        this.disconnect();
-        this.toast?.loading(`${this.label}: ${event.data}`, {
-          duration: 10000000,
-        });
-        return;
-      } else if (event.type === "_DOWNLOAD") {
-        const { filename, data } = event.data;
-        fetch(`data:application/octet-stream;base64,${data}`)
-          .then((res) => res.blob())
-          .then((blob) => fileDownload(blob, filename));
-      } else if (event.type === "_BIN_META") {
-        // the next message will be binary, save the metadata
-        if (this.binData !== null) {
-          console.warn("[WS Session] Overwriting existing binData metadata");
+      try {
+        await handler();
+      } catch (err) {
+        this.log.error(`init handler for key=${key} failed:`, err);
+        try {
+          this.onInitError?.(key, err);
+        } catch (callbackErr) {
+          this.log.error(`onInitError for key=${key} threw:`, callbackErr);
         }
-        this.binData = event.data;
-      } else if (event.type in this.eventHandlers) {
-        this.eventHandlers[event.type](event.data);
-      } else {
-        console.warn(
-          `[WS Session] No registered handler for event.type=${event.type}`
-        );
       }
+    }
+  }
+
+  // Deliver an event to the exclusive handler first, then to the listeners in
+  // subscription order. Each one is isolated: a throwing handler is logged and
+  // does not prevent the others from running. Returns false if nobody handled it.
+  private dispatch(type: string, data: unknown): boolean {
+    const handler = this.eventHandlers[type];
+    const entries = this.eventListeners.get(type);
+    if (handler === undefined && entries === undefined) return false;
+
+    if (handler !== undefined) {
+      try {
+        handler(data);
+      } catch (err) {
+        this.log.error(`handler for event=${type} threw:`, err);
+      }
+    }
+    if (entries !== undefined) {
+      for (const entry of [...entries]) {
+        if (entry.once) this.removeListener(type, entry);
+        try {
+          entry.listener(data);
+        } catch (err) {
+          this.log.error(`listener for event=${type} threw:`, err);
+        }
+      }
+    }
+    return true;
+  }
+
+  handleReceiveEvent(e: TransportMessageEvent) {
+    if (typeof e.data === "string") {
+      // text messages are JSON, unless a text codec is configured
+      const codec = this.codec.binary ? jsonCodec : this.codec;
+      this.receiveFrame(codec.decode(e.data));
+      return;
+    }
+
+    if (this.binData !== null) {
+      // the payload of a _BIN_META pair, even if it looks like an envelope
+      const { type, metadata } = this.binData;
+      // clear the metadata since we're handling it
+      this.binData = null;
+      this.receiveFrame({
+        type,
+        data: metadata,
+        binary: e.data as ArrayBuffer | Blob,
+      });
+      return;
+    }
+
+    let envelope: BinaryEnvelope | null = null;
+    try {
+      envelope =
+        e.data instanceof ArrayBuffer ? decodeBinaryEnvelope(e.data) : null;
+    } catch (err) {
+      this.log.error("Dropping malformed binary envelope:", err);
+      return;
+    }
+    if (envelope !== null) {
+      const { type, metadata, data } = envelope;
+      this.receiveFrame({ type, data: metadata, binary: data });
+    } else if (this.codec.binary) {
+      this.receiveFrame(this.codec.decode(e.data as ArrayBuffer));
+    } else if (this.binaryHandler !== null) {
+      this.binaryHandler(e.data);
     } else {
+      this.log.warn("Unhandled binary message (no binData or binaryHandler)");
+    }
+  }
+
+  private receiveFrame(frame: Frame) {
+    if (frame.type === "_BIN_META") {
+      // the next message will be binary, save the metadata. The middleware
+      // sees both as a single binary frame.
       if (this.binData !== null) {
-        const { type, metadata } = this.binData;
-
-        if (type in this.eventHandlers) {
-          this.eventHandlers[type]({
-            data: e.data,
-            ...metadata,
-          });
-        } else {
-          console.warn(`[WS Session] No handler for binary event: ${type}`);
+        this.log.warn("Overwriting existing binData metadata");
+      }
+      this.binData = frame.data;
+      return;
+    }
+
+    runMiddleware(
+      [...this.middleware]
+        .reverse()
+        .flatMap((m) => (m.inbound ? [m.inbound] : [])),
+      frame,
+      (f) => this.handleFrame(f),
+      (err) =>
+        this.log.error(`inbound middleware dropped event=${frame.type}:`, err)
+    );
+  }
+
+  private handleBinaryEvent(
+    type: string,
+    metadata: unknown,
+    data: ArrayBuffer | Blob
+  ) {
+    if (type === DOWNLOAD_CHUNK_EVENT) {
+      const { id, offset } = metadata as { id: string; offset: number };
+      this.downloads.chunk(id, offset, data);
+    } else if (!this.dispatch(type, { data, ...(metadata as object) })) {
+      this.log.warn(`No handler for binary event: ${type}`);
+    }
+  }
+
+  // the built-in handling of the system events, see systemHandlers
+  private builtinSystemHandler(type: SystemEvent, data: unknown) {
+    switch (type) {
+      case "_DISCONNECT": {
+        this.log.info(`Received _DISCONNECT from server for ${this.label}`);
+        this.disconnect();
+        this.notify(
+          "loading",
+          this.toastMessages.serverDisconnect(this.label, String(data)),
+          { duration: 10000000 }
+        );
+        break;
+      }
+      case "_DOWNLOAD": {
+        // legacy: the whole file base64 encoded in one message, decoded
+        // without a data: url fetch (blocked by strict Content-Security-Policies)
+        const { filename, data: base64 } = data as SystemEventData["_DOWNLOAD"];
+        const bytes = decodeBase64(base64);
+        const id = uuid();
+        this.downloads.start(
+          { id, filename, size: bytes.byteLength },
+          this.downloadSink
+        );
+        this.downloads.chunk(id, 0, bytes.buffer as ArrayBuffer);
+        this.downloads.end(id);
+        break;
+      }
+      case "_TOAST": {
+        if (!this.dispatch(type, data)) {
+          this.log.warn(`No registered handler for event.type=${type}`);
         }
+        break;
+      }
+    }
+  }
 
-        // clear the metadata since we've handled it
-        this.binData = null;
-      } else if (this.binaryHandler !== null) {
-        this.binaryHandler(e.data);
-      } else {
-        console.warn(
-          "[WS Session] Unhandled binary message (no binData or binaryHandler)"
+  private handleSystemEvent(type: SystemEvent, data: unknown) {
+    const builtin = () => this.builtinSystemHandler(type, data);
+    const handler = this.systemHandlers[type] as
+      | ((data: unknown, next: () => void) => void)
+      | undefined;
+    if (handler === undefined) {
+      builtin();
+      return;
+    }
+    try {
+      handler(data, builtin);
+    } catch (err) {
+      this.log.error(`system handler for event=${type} threw:`, err);
+    }
+  }
+
+  private handleFrame(event: Frame) {
+    if (this.routeToChannel(event)) return;
+    if (event.binary !== undefined) {
+      this.handleBinaryEvent(event.type, event.data, event.binary);
+      return;
+    }
+    if (isSystemEvent(event.type)) {
+      this.handleSystemEvent(event.type, event.data);
+    } else if (event.type === DOWNLOAD_START_EVENT) {
+      const { id, filename, size, mimeType } = event.data as Omit<
+        DownloadInfo,
+        "size"
+      > & { size?: number };
+      this.downloads.start(
+        { id, filename, size: size ?? null, mimeType },
+        this.downloadSink
+      );
+    } else if (event.type === DOWNLOAD_END_EVENT) {
+      this.downloads.end((event.data as { id: string }).id);
+    } else if (event.type === DOWNLOAD_ABORT_EVENT) {
+      const { id, reason } = event.data as { id: string; reason?: string };
+      this.downloads.fail(id, reason ?? "aborted by the server");
+    } else if (event.type === REDIRECT_EVENT) {
+      this.redirect((event.data ?? {}) as RedirectPayload);
+    } else if (event.type === PING_EVENT) {
+      this.send(PONG_EVENT, event.data); // server-initiated heartbeat
+    } else if (event.type === PONG_EVENT) {
+      this.heartbeat?.handlePong(event.data as PingPayload);
+    } else if (event.type === RESPONSE_EVENT) {
+      if (!this.pendingRequests.settle(event as ResponseFrame)) {
+        this.log.warn(
+          `Received ${RESPONSE_EVENT} for unknown request id=${event.id}`
         );
       }
+    } else if (event.id !== undefined && this.requestHandlers.has(event.type)) {
+      this.answerRequest(event);
+    } else if (!this.dispatch(event.type, event.data)) {
+      this.log.warn(`No registered handler for event.type=${event.type}`);
     }
   }
 }
+
+interface ChannelProviderProps {
+  name: string;
+  children: React.ReactNode;
+  context?: Context<Session | null>; // where the channel is provided
+  parent?: Context<Session | null>; // where the parent session is read from
+  options?: ChannelOptions;
+}
+
+// Provides session.channel(name) of the surrounding session to a subtree, so
+// that its stores share the parent's connection. The channel is closed on
+// unmount.
+export const ChannelProvider = ({
+  name,
+  children,
+  options,
+  context = DefaultSessionContext,
+  parent = DefaultSessionContext,
+}: ChannelProviderProps) => {
+  const session = useContext(parent);
+  const [channel, setChannel] = useState<Session | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    setChannel(session.channel(name, options));
+    return () => {
+      session.closeChannel(name);
+      setChannel(null);
+    };
+  }, [session, name]);
+
+  return <context.Provider value={channel}>{children}</context.Provider>;
+};
+
+// React hook: the session's current connection state
+export const useConnectionState = (session: Session | null): ConnectionState =>
+  useSyncExternalStore(
+    (cb) => session?.subscribeConnectionState(cb) ?? (() => {}),
+    () => session?.connectionState ?? IDLE,
+    () => IDLE
+  );
+
+const isDocumentHidden = () =>
+  typeof document !== "undefined" && document.visibilityState === "hidden";
+
+// React hook: the session's downloads in progress
+export const useDownloads = (session: Session | null): DownloadProgress[] =>
+  useSyncExternalStore(
+    (cb) => session?.subscribeDownloads(cb) ?? (() => {}),
+    () => session?.activeDownloads ?? NO_DOWNLOADS,
+    () => NO_DOWNLOADS
+  );
+
+const NO_DOWNLOADS: DownloadProgress[] = [];
+
+// React hook: progress of an upload, see Session.upload
+export const useUploadProgress = (
+  upload: Upload | null
+): UploadProgress | null =>
+  useSyncExternalStore(
+    (cb) => upload?.subscribe(cb) ?? (() => {}),
+    () => upload?.progress ?? null,
+    () => null
+  );
+
+// React hook: the session's last measured heartbeat round-trip time in ms
+export const useRoundTripTime = (session: Session | null): number | null =>
+  useSyncExternalStore(
+    (cb) => session?.subscribeRtt(cb) ?? (() => {}),
+    () => session?.rtt ?? null,
+    () => null
+  );
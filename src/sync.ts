@@ -7,7 +7,10 @@ import {
   produce,
 } from "immer";
 import { useEffect, useSyncExternalStore } from "react";
+import { hydrateEvent } from "./hydration";
+import { Logger } from "./logger";
 import { Session } from "./session";
+import type { Upload, UploadOptions, UploadSource } from "./upload";
 import type { Actions, Tasks } from "./zustand/utils";
 enablePatches();
 
@@ -32,6 +35,7 @@ export class Sync {
   private _firstPatchAt: number | null = null;
   private _baseSnapshot: object | null = null;
   private _isSyncedSubscribers: Set<() => void> = new Set();
+  private log: Logger;
 
   // If not null, compress when patch count >= threshold
   public compressThreshold: number | null = 5;
@@ -49,6 +53,7 @@ export class Sync {
     this.key = key;
     this.session = session;
     this.sendOnInit = sendOnInit;
+    this.log = session.logger.child(`sync:${key}`);
   }
 
   // flush the pending local changes to the server
@@ -195,6 +200,16 @@ export class Sync {
     this.session.sendBinary(actionEvent(this.key), action, data);
   }
 
+  // chunked alternative to sendBinary for large payloads, see Session.upload
+  public upload(
+    action: Action,
+    source: UploadSource,
+    options?: UploadOptions
+  ): Upload {
+    this.flush();
+    return this.session.upload(actionEvent(this.key), action, source, options);
+  }
+
   // fetch the remote state by sending _GET
   public fetchRemoteState(): void {
     this._discardPendingPatches();
@@ -207,6 +222,11 @@ export class Sync {
     this.session.send(setEvent(this.key), state);
   }
 
+  // the server-rendered state of this key, see Session.hydrate
+  public hydratedState<S>(): S | undefined {
+    return this.session.hydratedState(this.key) as S | undefined;
+  }
+
   // Register session event handlers for a reducer-like consumer and return a cleanup function
   public registerHandlers<S>(
     getState: () => S,
@@ -218,8 +238,13 @@ export class Sync {
     this.session.registerEvent(getEvent(this.key), () =>
       this.sendState(getState())
     );
-    // _SET replaces state
-    this.session.registerEvent(setEvent(this.key), (s) => setState(s as S));
+    // _SET replaces state, and any server-rendered snapshot with it
+    this.session.registerEvent(setEvent(this.key), (s) => {
+      setState(s as S);
+      this.session.releaseHydratedState(this.key);
+    });
+    // _HYDRATE (local) replaces state with the snapshot
+    this.session.registerEvent(hydrateEvent(this.key), (s) => setState(s as S));
     // _PATCH applies a patch array
     this.session.registerEvent(patchEvent(this.key), (p) =>
       patchState(p as JsonPatch[])
@@ -235,8 +260,8 @@ export class Sync {
         try {
           handler(payload);
         } catch (err) {
-          console.error(
-            `[Sync] error invoking dynamic action handler for ${act.type}:`,
+          this.log.error(
+            `error invoking dynamic action handler for ${act.type}:`,
             err
           );
         }
@@ -252,6 +277,7 @@ export class Sync {
     return () => {
       this.session.deregisterEvent(getEvent(this.key));
       this.session.deregisterEvent(setEvent(this.key));
+      this.session.deregisterEvent(hydrateEvent(this.key));
       this.session.deregisterEvent(patchEvent(this.key));
       this.session.deregisterEvent(actionEvent(this.key));
       if (this.sendOnInit) {
@@ -270,7 +296,7 @@ export class Sync {
     // add to global registry, error if already present
     for (const [key, fn] of Object.entries(handlers)) {
       if (this._actionHandlers.has(key)) {
-        console.error(`[Sync] Attempt to re-register action handler: ${key}`);
+        this.log.error(`Attempt to re-register action handler: ${key}`);
         throw new Error(`action handler already registered for ${key}`);
       }
       // Store in the generic handler registry
@@ -309,7 +335,7 @@ export class Sync {
       try {
         cb();
       } catch (err) {
-        console.error("[Sync] error in isSynced subscriber", err);
+        this.log.error("error in isSynced subscriber", err);
       }
     }
   }
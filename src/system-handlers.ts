@@ -0,0 +1,31 @@
+import type { RemoteToast } from "./remote-toast";
+
+// the payloads of the events the Session handles itself
+export interface SystemEventData {
+  _DISCONNECT: string; // the reason, shown to the user
+  _DOWNLOAD: { filename: string; data: string }; // the whole file, base64
+  _TOAST: RemoteToast;
+}
+
+export type SystemEvent = keyof SystemEventData;
+
+export const SYSTEM_EVENTS: SystemEvent[] = [
+  "_DISCONNECT",
+  "_DOWNLOAD",
+  "_TOAST",
+];
+
+// Replaces the built-in handling of a system event, next() runs it anyway,
+// e.g. after handling the event itself. Built in:
+// - _DISCONNECT: disconnects and shows the reason in a loading toast
+// - _DOWNLOAD: saves the file through the session's downloadSink
+// - _TOAST: passes it to the event handlers, e.g. useRemoteToast
+export type SystemHandler<E extends SystemEvent> = (
+  data: SystemEventData[E],
+  next: () => void
+) => void;
+
+export type SystemHandlers = { [E in SystemEvent]?: SystemHandler<E> };
+
+export const isSystemEvent = (type: string): type is SystemEvent =>
+  (SYSTEM_EVENTS as string[]).includes(type);
@@ -0,0 +1,139 @@
+import type { CloseInfo } from "./close-policy";
+
+export type ToastKind = "info" | "success" | "warning" | "error" | "loading";
+
+export interface ToastButton {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  id?: string; // a toast with the same id replaces the previous one
+  duration?: number; // ms, Infinity to keep it until replaced or dismissed
+  description?: string; // a second, smaller line
+  action?: ToastButton;
+  cancel?: ToastButton;
+}
+
+// Where Session shows its notifications. sonner's `toast` fits as-is, see the
+// adapters below for other libraries.
+export interface ToastAdapter {
+  info(message: string, options?: ToastOptions): unknown;
+  success(message: string, options?: ToastOptions): unknown;
+  warning(message: string, options?: ToastOptions): unknown;
+  error(message: string, options?: ToastOptions): unknown;
+  loading(message: string, options?: ToastOptions): unknown;
+  message?(message: string, options?: ToastOptions): unknown; // neutral, info otherwise
+  dismiss?(id?: string): unknown;
+}
+
+// The texts of Session's notifications, e.g. to localize them
+export interface ToastMessages {
+  connecting: (label: string) => string;
+  connected: (label: string) => string;
+  reconnecting: (label: string, seconds: number) => string;
+  disconnected: (label: string) => string;
+  gaveUp: (label: string) => string;
+  closedByServer: (label: string, close: CloseInfo) => string; // no retries
+  sendWhileDisconnected: (label: string) => string;
+  socketError: (label: string, error: unknown) => string;
+  serverDisconnect: (label: string, message: string) => string; // _DISCONNECT
+}
+
+export const defaultToastMessages: ToastMessages = {
+  connecting: (label) => `Connecting to ${label}...`,
+  connected: (label) => `Connected to ${label}!`,
+  reconnecting: (label, seconds) =>
+    `Disconnected from ${label}: Retrying in ${seconds} seconds...`,
+  disconnected: (label) => `Disconnected from ${label}!`,
+  gaveUp: (label) => `Disconnected from ${label}: Giving up.`,
+  closedByServer: (label, close) =>
+    `${label}: ${close.reason || `Connection closed (code ${close.code})`}`,
+  sendWhileDisconnected: (label) => `${label}: Sending while not connected!`,
+  socketError: (label, error) => `${label}: Socket Error: ${error}`,
+  serverDisconnect: (label, message) => `${label}: ${message}`,
+};
+
+// ========== adapters ========== //
+
+// for libraries without descriptions; buttons are not supported by either
+const withDescription = (message: string, o?: ToastOptions) =>
+  o?.description ? `${message}\n${o.description}` : message;
+
+// the parts of react-hot-toast's `toast` that hotToastAdapter uses
+type HotToastOptions = { id?: string; duration?: number; icon?: string };
+export interface HotToast {
+  (message: string, options?: HotToastOptions): string;
+  success(message: string, options?: HotToastOptions): string;
+  error(message: string, options?: HotToastOptions): string;
+  loading(message: string, options?: HotToastOptions): string;
+  dismiss(id?: string): void;
+}
+
+// react-hot-toast has no info and warning toasts, they get an icon instead
+export const hotToastAdapter = (toast: HotToast): ToastAdapter => {
+  const options = (o?: ToastOptions): HotToastOptions => ({
+    id: o?.id,
+    duration: o?.duration,
+  });
+  return {
+    info: (m, o) => toast(withDescription(m, o), { ...options(o), icon: "ℹ️" }),
+    success: (m, o) => toast.success(withDescription(m, o), options(o)),
+    warning: (m, o) =>
+      toast(withDescription(m, o), { ...options(o), icon: "⚠️" }),
+    error: (m, o) => toast.error(withDescription(m, o), options(o)),
+    loading: (m, o) => toast.loading(withDescription(m, o), options(o)),
+    message: (m, o) => toast(withDescription(m, o), options(o)),
+    dismiss: (id) => toast.dismiss(id),
+  };
+};
+
+// the parts of react-toastify's `toast` that toastifyAdapter uses
+type ToastifyOptions = {
+  toastId?: string;
+  autoClose?: number | false;
+  render?: string;
+  type?: "info" | "success" | "warning" | "error" | "default";
+  isLoading?: boolean;
+};
+export interface Toastify {
+  info(content: string, options?: ToastifyOptions): string | number;
+  success(content: string, options?: ToastifyOptions): string | number;
+  warning(content: string, options?: ToastifyOptions): string | number;
+  error(content: string, options?: ToastifyOptions): string | number;
+  loading(content: string, options?: ToastifyOptions): string | number;
+  update(id: string, options: ToastifyOptions): void;
+  isActive(id: string): boolean;
+  dismiss(id?: string): void;
+}
+
+// react-toastify ignores a toast whose id is shown already, so those are
+// updated in place
+export const toastifyAdapter = (toast: Toastify): ToastAdapter => {
+  const show = (kind: ToastKind) => (m: string, o?: ToastOptions) => {
+    const message = withDescription(m, o);
+    const options: ToastifyOptions = {};
+    if (o?.duration !== undefined) {
+      options.autoClose = o.duration === Infinity ? false : o.duration;
+    }
+    if (o?.id !== undefined && toast.isActive(o.id)) {
+      toast.update(o.id, {
+        // a former loading toast would otherwise stay open
+        autoClose: kind === "loading" ? false : options.autoClose ?? 5000,
+        render: message,
+        type: kind === "loading" ? "default" : kind,
+        isLoading: kind === "loading",
+      });
+      return o.id;
+    }
+    return toast[kind](message, { ...options, toastId: o?.id });
+  };
+  return {
+    info: show("info"),
+    success: show("success"),
+    warning: show("warning"),
+    error: show("error"),
+    loading: show("loading"),
+    dismiss: (id) => toast.dismiss(id),
+  };
+};
@@ -0,0 +1,283 @@
+// ========== transport interface ========== //
+// The subset of the browser WebSocket API that Session relies on, so that a
+// WebSocket instance is a valid Transport as-is.
+
+export const ReadyState = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const;
+
+export type TransportData = string | ArrayBuffer | ArrayBufferView | Blob;
+
+export interface TransportMessageEvent {
+  data: unknown; // string, or ArrayBuffer/Blob depending on binaryType
+}
+
+export interface TransportCloseEvent {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+export interface Transport {
+  readonly readyState: number; // one of ReadyState
+  binaryType: BinaryType;
+  readonly bufferedAmount?: number; // bytes queued but not yet sent, if known
+  send(data: TransportData): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((ev: Event) => void) | null;
+  onclose: ((ev: CloseEvent) => void) | null;
+  onmessage: ((ev: MessageEvent) => void) | null;
+  onerror: ((ev: Event) => void) | null;
+}
+
+// creates a new, connecting transport for every connection attempt
+export type TransportFactory = {
+  (url: string, protocols?: string | string[]): Transport;
+  // called when the session stops connecting for good: disconnect(), a close
+  // code that stops it, or the reconnect policy gave up
+  release?: () => void;
+};
+
+// the default: a plain browser WebSocket
+export const webSocketTransport: TransportFactory = (url, protocols) =>
+  new WebSocket(url, protocols);
+
+// ========== shared helpers for the in-the-box transports ========== //
+// Events are plain objects with the fields Session reads, cast to the DOM
+// types so that they fit the WebSocket-shaped handler signatures.
+
+const messageEvent = (data: unknown) =>
+  ({ data } as TransportMessageEvent as MessageEvent);
+const closeEvent = (code: number, reason: string) =>
+  ({
+    code,
+    reason,
+    wasClean: code === 1000,
+  } as TransportCloseEvent as CloseEvent);
+const plainEvent = (type: string) => ({ type } as Event);
+
+// emulate what a WebSocket receiver sees: binary views arrive as ArrayBuffer
+const toReceived = (data: TransportData): unknown => {
+  if (ArrayBuffer.isView(data)) {
+    return data.buffer.slice(
+      data.byteOffset,
+      data.byteOffset + data.byteLength
+    );
+  }
+  return data;
+};
+
+// Base class handling readyState and asynchronous event delivery
+export abstract class AsyncTransport implements Transport {
+  readyState: number = ReadyState.CONNECTING;
+  binaryType: BinaryType = "blob";
+  onopen: ((ev: Event) => void) | null = null;
+  onclose: ((ev: CloseEvent) => void) | null = null;
+  onmessage: ((ev: MessageEvent) => void) | null = null;
+  onerror: ((ev: Event) => void) | null = null;
+
+  abstract send(data: TransportData): void;
+  abstract close(code?: number, reason?: string): void;
+
+  protected open() {
+    if (this.readyState !== ReadyState.CONNECTING) return;
+    this.readyState = ReadyState.OPEN;
+    this.onopen?.(plainEvent("open"));
+  }
+
+  protected receive(data: unknown) {
+    if (this.readyState !== ReadyState.OPEN) return;
+    if (this.binaryType === "blob" && data instanceof ArrayBuffer) {
+      data = new Blob([data]);
+    }
+    this.onmessage?.(messageEvent(data));
+  }
+
+  protected closed(code: number, reason: string) {
+    if (this.readyState === ReadyState.CLOSED) return;
+    this.readyState = ReadyState.CLOSED;
+    this.onclose?.(closeEvent(code, reason));
+  }
+
+  protected assertOpen() {
+    if (this.readyState !== ReadyState.OPEN) {
+      throw new Error("transport is not open");
+    }
+  }
+}
+
+// ========== in-memory loopback ========== //
+
+// One end of an in-memory connection, see LoopbackServer
+export class LoopbackSocket extends AsyncTransport {
+  readonly url: string;
+  private peer: LoopbackSocket | null = null;
+
+  constructor(url: string) {
+    super();
+    this.url = url;
+  }
+
+  static pair(url: string): [LoopbackSocket, LoopbackSocket] {
+    const a = new LoopbackSocket(url);
+    const b = new LoopbackSocket(url);
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  send(data: TransportData) {
+    this.assertOpen();
+    const peer = this.peer;
+    const received = toReceived(data);
+    queueMicrotask(() => peer?.receive(received));
+  }
+
+  close(code: number = 1000, reason: string = "") {
+    if (this.readyState >= ReadyState.CLOSING) return;
+    this.readyState = ReadyState.CLOSING;
+    const peer = this.peer;
+    queueMicrotask(() => {
+      this.closed(code, reason);
+      peer?.closed(code, reason);
+    });
+  }
+
+  // used by LoopbackServer once both ends are wired up
+  connect() {
+    const peer = this.peer;
+    queueMicrotask(() => {
+      this.open();
+      peer?.open();
+    });
+  }
+}
+
+// An in-memory "server" to run the sync stack without a real socket:
+//
+//   const server = new LoopbackServer();
+//   server.onConnection((socket) => { socket.onmessage = ... });
+//   const session = new Session({ url: "loopback://", transport: server.transport });
+export class LoopbackServer {
+  private sockets: LoopbackSocket[] = [];
+  private handlers: Set<(socket: LoopbackSocket) => void> = new Set();
+
+  // pass this to SessionOptions.transport
+  readonly transport: TransportFactory = (url) => {
+    const [client, server] = LoopbackSocket.pair(url);
+    server.binaryType = "arraybuffer";
+    this.sockets.push(server);
+    for (const handler of Array.from(this.handlers)) {
+      handler(server);
+    }
+    client.connect();
+    return client;
+  };
+
+  // server ends of the connections that are not closed yet
+  get connections(): LoopbackSocket[] {
+    this.sockets = this.sockets.filter(
+      (s) => s.readyState !== ReadyState.CLOSED
+    );
+    return [...this.sockets];
+  }
+
+  // called with the server end of every new connection, returns unsubscribe
+  onConnection(handler: (socket: LoopbackSocket) => void): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  // send to every open connection
+  broadcast(data: TransportData) {
+    for (const socket of this.connections) {
+      if (socket.readyState === ReadyState.OPEN) socket.send(data);
+    }
+  }
+}
+
+// ========== BroadcastChannel ========== //
+
+// Talks to other browsing contexts (tabs, iframes, workers) of the same
+// origin that use the same channel name. The "connection" opens immediately;
+// there is no handshake with the other side.
+export class BroadcastChannelTransport extends AsyncTransport {
+  readonly name: string;
+  private channel: BroadcastChannel | null = null;
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+
+    if (typeof BroadcastChannel === "undefined") {
+      queueMicrotask(() => {
+        this.onerror?.(plainEvent("error"));
+        this.closed(1006, "BroadcastChannel is not supported");
+      });
+      return;
+    }
+
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (e: MessageEvent) => this.receive(e.data);
+    this.channel = channel;
+    queueMicrotask(() => this.open());
+  }
+
+  send(data: TransportData) {
+    this.assertOpen();
+    this.channel?.postMessage(toReceived(data));
+  }
+
+  close(code: number = 1000, reason: string = "") {
+    if (this.readyState >= ReadyState.CLOSING) return;
+    this.readyState = ReadyState.CLOSING;
+    this.channel?.close();
+    this.channel = null;
+    queueMicrotask(() => this.closed(code, reason));
+  }
+}
+
+// the session url is used as the channel name
+export const broadcastChannelTransport: TransportFactory = (url) =>
+  new BroadcastChannelTransport(url);
+
+// ========== channel of a Session ========== //
+
+// The "connection" of a Session.channel(): it follows the parent session's
+// connection but carries no data itself, frames are handed to and from the
+// parent session directly.
+export class ChannelSocket extends AsyncTransport {
+  readonly url: string;
+
+  constructor(url: string) {
+    super();
+    this.url = url;
+  }
+
+  send() {
+    throw new Error("channel frames are sent through the parent session");
+  }
+
+  close(code: number = 1000, reason: string = "") {
+    if (this.readyState >= ReadyState.CLOSING) return;
+    this.readyState = ReadyState.CLOSING;
+    queueMicrotask(() => this.closed(code, reason));
+  }
+
+  // the parent session is connected
+  parentOpened() {
+    queueMicrotask(() => this.open());
+  }
+
+  // the parent session lost or closed its connection
+  parentClosed(code: number, reason: string) {
+    if (this.readyState === ReadyState.CLOSED) return;
+    this.readyState = ReadyState.CLOSING;
+    queueMicrotask(() => this.closed(code, reason));
+  }
+}
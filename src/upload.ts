@@ -0,0 +1,343 @@
+import { v4 as uuid } from "uuid";
+import type { Logger } from "./logger";
+import { RequestError } from "./request";
+import type { Session } from "./session";
+import { readBlob } from "./utils/blob";
+
+// Upload protocol, all correlated by the upload id:
+// - _UPLOAD_START (request) { id, event, metadata, size, chunkSize }, the
+//   server replies { offset } with the number of bytes it already has (> 0
+//   when resuming after a reconnect)
+// - _UPLOAD_CHUNK (binary) { id, offset } + the chunk's bytes
+// - _UPLOAD_END (request) { id, size }, the server assembles the upload,
+//   handles it like a binary `event` with `metadata`, and replies with the result
+// - _UPLOAD_CANCEL { id }, the server discards what it received
+export const UPLOAD_START_EVENT = "_UPLOAD_START";
+export const UPLOAD_CHUNK_EVENT = "_UPLOAD_CHUNK";
+export const UPLOAD_END_EVENT = "_UPLOAD_END";
+export const UPLOAD_CANCEL_EVENT = "_UPLOAD_CANCEL";
+
+export type UploadSource =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream<Uint8Array>;
+
+export interface UploadOptions {
+  chunkSize?: number; // bytes per chunk (default 256 KiB)
+  // wait while the socket has more than this many bytes buffered (default 1 MiB)
+  highWaterMark?: number;
+  // continue after a reconnect instead of failing (default true), uploads from
+  // a ReadableStream can only resume if the server has every chunk sent so far
+  resume?: boolean;
+  signal?: AbortSignal; // aborting cancels the upload
+  size?: number; // total size of a ReadableStream source, for progress
+}
+
+export type UploadStatus =
+  | "uploading"
+  | "paused" // waiting for a reconnect
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface UploadProgress {
+  status: UploadStatus;
+  sent: number; // bytes
+  total: number | null; // null if the size of a stream is unknown
+}
+
+// polling interval while waiting for the socket's buffer to drain
+const DRAIN_INTERVAL = 16;
+
+// Sequential access to the bytes of an upload source
+interface ChunkReader {
+  size: number | null;
+  seekable: boolean;
+  // up to `length` bytes starting at `offset`, null at the end
+  read(offset: number, length: number): Promise<ArrayBuffer | null>;
+}
+
+const createChunkReader = (
+  source: UploadSource,
+  size?: number
+): ChunkReader => {
+  if (typeof Blob !== "undefined" && source instanceof Blob) {
+    return {
+      size: source.size,
+      seekable: true,
+      read: async (offset, length) =>
+        offset >= source.size
+          ? null
+          : readBlob(source.slice(offset, offset + length)),
+    };
+  }
+  if (source instanceof ArrayBuffer || ArrayBuffer.isView(source)) {
+    const bytes =
+      source instanceof ArrayBuffer
+        ? new Uint8Array(source)
+        : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+    return {
+      size: bytes.byteLength,
+      seekable: true,
+      read: async (offset, length) =>
+        offset >= bytes.byteLength
+          ? null
+          : bytes.slice(offset, offset + length).buffer,
+    };
+  }
+
+  const reader = (source as ReadableStream<Uint8Array>).getReader();
+  let position = 0; // offset of the first byte in `pending`
+  let pending = new Uint8Array(0);
+  let ended = false;
+  return {
+    size: size ?? null,
+    seekable: false,
+    read: async (offset, length) => {
+      if (offset < position) {
+        throw new Error(`cannot rewind a stream from ${position} to ${offset}`);
+      }
+      while (!ended && position + pending.length < offset + length) {
+        const { done, value } = await reader.read();
+        if (done) {
+          ended = true;
+        } else {
+          const joined = new Uint8Array(pending.length + value.length);
+          joined.set(pending, 0);
+          joined.set(value, pending.length);
+          pending = joined;
+        }
+      }
+      pending = pending.slice(Math.min(offset - position, pending.length));
+      position = offset;
+      if (pending.length === 0) return null;
+
+      const chunk = pending.slice(0, length);
+      pending = pending.slice(chunk.length);
+      position += chunk.length;
+      return chunk.buffer;
+    },
+  };
+};
+
+// A chunked upload started with Session.upload, see UPLOAD_START_EVENT
+export class Upload {
+  readonly id: string;
+  readonly event: string;
+  // resolves with the server's reply to _UPLOAD_END, rejects with a
+  // RequestError when cancelled, disconnected without resume, or refused
+  readonly done: Promise<unknown>;
+
+  private reader: ChunkReader;
+  private chunkSize: number;
+  private highWaterMark: number;
+  private resume: boolean;
+  private _progress: UploadProgress;
+  private subscribers: Set<() => void> = new Set();
+  private log: Logger;
+  private controller: AbortController = new AbortController(); // aborted on cancel
+  private removeAbortListener: () => void = () => {}; // of options.signal
+
+  constructor(
+    private readonly session: Session,
+    event: string,
+    private readonly metadata: unknown,
+    source: UploadSource,
+    options: UploadOptions = {}
+  ) {
+    this.id = uuid();
+    this.log = session.logger.child("session");
+    this.event = event;
+    this.reader = createChunkReader(source, options.size);
+    this.chunkSize = options.chunkSize ?? 256 * 1024;
+    this.highWaterMark = options.highWaterMark ?? 1024 * 1024;
+    this.resume = options.resume ?? true;
+    this._progress = { status: "uploading", sent: 0, total: this.reader.size };
+
+    const signal = options.signal;
+    if (signal?.aborted) {
+      this.controller.abort();
+    } else if (signal) {
+      const onAbort = () => this.cancel();
+      signal.addEventListener("abort", onAbort, { once: true });
+      this.removeAbortListener = () =>
+        signal.removeEventListener("abort", onAbort);
+    }
+
+    this.done = this.run();
+    this.done.catch(() => {}); // rejections are reported through progress, too
+  }
+
+  get progress(): UploadProgress {
+    return this._progress;
+  }
+
+  subscribe(callback: () => void): () => void {
+    this.subscribers.add(callback);
+    return () => {
+      this.subscribers.delete(callback);
+    };
+  }
+
+  // stop sending chunks and tell the server to discard the upload
+  cancel() {
+    if (this.cancelled || this.isSettled()) return;
+    if (this.session.isConnected) {
+      this.session.send(UPLOAD_CANCEL_EVENT, { id: this.id });
+    }
+    this.controller.abort();
+  }
+
+  private get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  private isSettled(): boolean {
+    const { status } = this._progress;
+    return status === "done" || status === "failed" || status === "cancelled";
+  }
+
+  private setProgress(progress: Partial<UploadProgress>) {
+    this._progress = { ...this._progress, ...progress };
+    for (const cb of Array.from(this.subscribers)) {
+      cb();
+    }
+  }
+
+  private error(reason: "aborted" | "disconnected", message: string) {
+    return new RequestError(reason, this.event, message);
+  }
+
+  private async run(): Promise<unknown> {
+    try {
+      const result = await this.attempt();
+      this.setProgress({ status: "done" });
+      return result;
+    } catch (err) {
+      this.setProgress({ status: this.cancelled ? "cancelled" : "failed" });
+      throw err;
+    } finally {
+      this.removeAbortListener();
+    }
+  }
+
+  private async attempt(): Promise<unknown> {
+    for (;;) {
+      try {
+        await this.waitUntil(() => this.session.isConnected);
+        const { offset = 0 } =
+          (await this.session.request<{ offset?: number } | null>(
+            UPLOAD_START_EVENT,
+            {
+              id: this.id,
+              event: this.event,
+              metadata: this.metadata,
+              size: this.reader.size,
+              chunkSize: this.chunkSize,
+            },
+            { signal: this.controller.signal }
+          )) ?? {};
+        if (!this.reader.seekable && offset !== this._progress.sent) {
+          throw this.error(
+            "disconnected",
+            `upload ${this.event} cannot resume a stream at ${offset}`
+          );
+        }
+        this.setProgress({ status: "uploading", sent: offset });
+
+        for (;;) {
+          await this.waitUntil(
+            () =>
+              !this.session.isConnected ||
+              this.session.bufferedAmount <= this.highWaterMark
+          );
+          const chunk = await this.reader.read(
+            this._progress.sent,
+            this.chunkSize
+          );
+          if (chunk === null) break;
+          if (this.cancelled) throw this.cancelledError();
+          if (!this.session.isConnected) {
+            throw this.error(
+              "disconnected",
+              `upload ${this.event} interrupted`
+            );
+          }
+          this.session.sendBinary(
+            UPLOAD_CHUNK_EVENT,
+            { id: this.id, offset: this._progress.sent },
+            chunk
+          );
+          this.setProgress({ sent: this._progress.sent + chunk.byteLength });
+        }
+
+        return await this.session.request(
+          UPLOAD_END_EVENT,
+          { id: this.id, size: this._progress.sent },
+          { signal: this.controller.signal }
+        );
+      } catch (err) {
+        if (this.cancelled) throw this.cancelledError();
+        const { status } = this.session.connectionState;
+        if (
+          !this.resume ||
+          !(err instanceof RequestError) ||
+          err.reason !== "disconnected" ||
+          this.session.isConnected ||
+          status === "closed" || // no reconnect to wait for
+          status === "failed"
+        ) {
+          throw err;
+        }
+        this.log.warn(
+          `Upload ${this.id} interrupted at ${this._progress.sent} bytes, resuming after reconnect`
+        );
+        this.setProgress({ status: "paused" });
+      }
+    }
+  }
+
+  private cancelledError() {
+    return this.error("aborted", `upload ${this.event} cancelled`);
+  }
+
+  // resolves once `ready` returns true, checked on every connection state
+  // change and while polling the send buffer
+  private waitUntil(ready: () => boolean): Promise<void> {
+    if (this.cancelled) return Promise.reject(this.cancelledError());
+    if (ready()) return Promise.resolve();
+
+    const signal = this.controller.signal;
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setInterval> | null = null;
+      let unsubscribe = () => {};
+      const finish = () => {
+        if (timer !== null) clearInterval(timer);
+        unsubscribe();
+        signal.removeEventListener("abort", check);
+      };
+      const check = () => {
+        const { status } = this.session.connectionState;
+        if (this.cancelled) {
+          finish();
+          reject(this.cancelledError());
+        } else if (ready()) {
+          finish();
+          resolve();
+        } else if (status === "closed" || status === "failed") {
+          finish();
+          reject(
+            this.error("disconnected", `upload ${this.event} interrupted`)
+          );
+        }
+      };
+      unsubscribe = this.session.subscribeConnectionState(check);
+      signal.addEventListener("abort", check);
+      if (this.session.isConnected) {
+        timer = setInterval(check, DRAIN_INTERVAL); // waiting for the buffer
+      }
+      check(); // closed or failed already, no state change would follow
+    });
+  }
+}
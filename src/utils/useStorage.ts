@@ -6,11 +6,12 @@ function useStorage<T>(
   key: string,
   initialValue: T | (() => T)
 ): [T, (value: T | ((val: T) => T)) => void] {
-  const storage = window[storageType];
+  // not available during server-side rendering
+  const storage = typeof window === "undefined" ? null : window[storageType];
 
   const readValue = useCallback((): T => {
     // Prevent build errors during server-side rendering
-    if (typeof window === "undefined") {
+    if (storage === null) {
       return initialValue instanceof Function ? initialValue() : initialValue;
     }
 
@@ -31,7 +32,7 @@ function useStorage<T>(
   const setValue = useCallback(
     (value: T | ((val: T) => T)) => {
       // Prevent build errors during server-side rendering
-      if (typeof window === "undefined") {
+      if (storage === null) {
         console.warn(
           `Tried setting ${storageType} key “${key}” even though environment is not a client`
         );
@@ -61,7 +62,7 @@ function useStorage<T>(
   // Listen for changes to the same key from other tabs/windows
   useEffect(() => {
     // Prevent build errors during server-side rendering
-    if (typeof window === "undefined") {
+    if (storage === null) {
       return;
     }
 
@@ -247,6 +247,8 @@ const syncedImpl: SyncedImpl =
       }
     };
 
+    const log = syncOptions.session.logger.child("zustand");
+
     // Register session handlers to support remote -> local updates
     const cleanup = syncObj.registerHandlers<State>(
       () => extractSyncedSubset(get() as Record<string, unknown>) as State,
@@ -273,10 +275,7 @@ const syncedImpl: SyncedImpl =
           } catch (err) {
             // swallow handler errors to avoid breaking socket pipeline
             // users can handle their own errors inside action methods
-            console.error(
-              `[zustand synced] error invoking action handler for ${action.type}:`,
-              err
-            );
+            log.error(`error invoking action handler for ${action.type}:`, err);
           }
         }
       }
@@ -307,7 +306,11 @@ const syncedImpl: SyncedImpl =
     newStore.sync = callableSync;
 
     // create the state with the wrapped setter and the mutated store (note newStore === store same object)
-    return stateCreator(store.setState, get, newStore);
+    const initialState = stateCreator(store.setState, get, newStore);
+    // start from the server-rendered snapshot, if any
+    const hydrated = syncObj.hydratedState<Record<string, unknown>>();
+    if (hydrated === undefined) return initialState;
+    return { ...initialState, ...extractSyncedSubset(hydrated) } as State;
   };
 
 // ========== export the middleware ========== //
@@ -0,0 +1,44 @@
+import { act, render, screen } from "@testing-library/react";
+import React, { StrictMode, useContext } from "react";
+import {
+  ChannelProvider,
+  DefaultSessionContext,
+  Session,
+} from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+const ChannelProbe = () => {
+  const channel = useContext(DefaultSessionContext);
+  return <span data-testid="label">{channel?.label ?? "none"}</span>;
+};
+
+describe("ChannelProvider", () => {
+  test("provides the channel and closes it on unmount", async () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+    });
+    session.connect();
+    transport.latest().open();
+
+    const view = render(
+      <StrictMode>
+        <DefaultSessionContext.Provider value={session}>
+          <ChannelProvider name="docs">
+            <ChannelProbe />
+          </ChannelProvider>
+        </DefaultSessionContext.Provider>
+      </StrictMode>
+    );
+    expect(screen.getByTestId("label").textContent).toBe("Server/docs");
+    const docs = session.channel("docs");
+    await act(() => new Promise((r) => setTimeout(r, 0)));
+    expect(docs.isConnected).toBe(true);
+
+    view.unmount();
+    expect(docs.isConnected).toBe(false);
+    expect(session.channel("docs")).not.toBe(docs); // released
+    session.disconnect();
+  });
+});
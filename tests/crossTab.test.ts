@@ -0,0 +1,213 @@
+import { BroadcastChannel as NodeBroadcastChannel } from "worker_threads";
+import { waitFor } from "@testing-library/dom";
+import { CrossTabConnection } from "../src/cross-tab";
+import { Session } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+// exclusive locks granted in request order, like navigator.locks
+class FakeLockManager {
+  private held: Set<string> = new Set();
+  private queue: { name: string; grant: () => void }[] = [];
+
+  request(
+    name: string,
+    options: { signal?: AbortSignal },
+    callback: () => Promise<void>
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const entry = {
+        name,
+        grant: () => {
+          this.held.add(name);
+          callback().then(() => {
+            this.held.delete(name);
+            resolve();
+            this.next(name);
+          });
+        },
+      };
+      options.signal?.addEventListener("abort", () => {
+        const index = this.queue.indexOf(entry);
+        if (index === -1) return; // already granted
+        this.queue.splice(index, 1);
+        reject(new Error("AbortError"));
+      });
+      this.queue.push(entry);
+      this.next(name);
+    });
+  }
+
+  private next(name: string) {
+    if (this.held.has(name)) return;
+    const index = this.queue.findIndex((e) => e.name === name);
+    if (index === -1) return;
+    const [entry] = this.queue.splice(index, 1);
+    entry.grant();
+  }
+}
+
+describe("CrossTabConnection", () => {
+  const originalChannel = (globalThis as any).BroadcastChannel;
+  beforeEach(() => {
+    (globalThis as any).BroadcastChannel = NodeBroadcastChannel;
+    Object.defineProperty(navigator, "locks", {
+      value: new FakeLockManager(),
+      configurable: true,
+    });
+  });
+  afterEach(() => {
+    (globalThis as any).BroadcastChannel = originalChannel;
+    delete (navigator as any).locks;
+  });
+
+  // two "tabs" sharing one server connection, with their reconnect delays
+  const setup = async (delays: (number | null)[] = [0, 0]) => {
+    const server = createFakeTransport();
+    const tabs = [1, 2].map(
+      () =>
+        new CrossTabConnection({ name: "test-tabs", transport: server.factory })
+    );
+    const [a, b] = tabs.map(
+      (tab, i) =>
+        new Session({
+          url: "ws://x",
+          transport: tab.transport,
+          reconnect: { nextDelay: () => delays[i] },
+        })
+    );
+    a.connect();
+    await waitFor(() => expect(server.sockets).toHaveLength(1));
+    server.latest().open();
+    await waitFor(() => expect(a.isConnected).toBe(true));
+    b.connect();
+    await waitFor(() => expect(b.isConnected).toBe(true));
+    return { server, tabs, sessions: [a, b] };
+  };
+
+  test("one tab holds the socket, the others go through it", async () => {
+    const { server, tabs, sessions } = await setup();
+    const [a, b] = sessions;
+    expect(server.sockets).toHaveLength(1);
+    expect(tabs.map((t) => t.isLeader)).toEqual([true, false]);
+
+    b.send("UP", 1);
+    await waitFor(() =>
+      expect(server.latest().sent).toContain(
+        JSON.stringify({ type: "UP", data: 1 })
+      )
+    );
+
+    const onA = jest.fn();
+    const onB = jest.fn();
+    a.registerEvent("EVT", onA);
+    b.registerEvent("EVT", onB);
+    server.latest().receive(JSON.stringify({ type: "EVT", data: 2 }));
+    expect(onA).toHaveBeenCalledWith(2);
+    await waitFor(() => expect(onB).toHaveBeenCalledWith(2));
+
+    a.disconnect();
+    b.disconnect();
+  });
+
+  test("another tab takes over when the leader leaves", async () => {
+    const { server, tabs, sessions } = await setup();
+    const [a, b] = sessions;
+
+    a.disconnect();
+    await waitFor(() => expect(server.sockets).toHaveLength(2));
+    expect(server.sockets[0].close).toHaveBeenCalled();
+    expect(tabs[1].isLeader).toBe(true);
+
+    server.latest().open();
+    await waitFor(() => expect(b.isConnected).toBe(true));
+    b.disconnect();
+  });
+
+  test("followers reconnect when the leader's socket closes", async () => {
+    const { server, sessions } = await setup();
+    const [a, b] = sessions;
+    const states: string[] = [];
+    b.subscribeConnectionState((s) => states.push(s.status));
+
+    server.latest().serverClose(1006, "gone");
+    await waitFor(() => expect(server.sockets).toHaveLength(2));
+    server.latest().open();
+    await waitFor(() => expect(b.isConnected).toBe(true));
+    expect(states).toContain("reconnecting");
+
+    a.disconnect();
+    b.disconnect();
+  });
+
+  test("the leader steps down when disconnected while waiting to reconnect", async () => {
+    const { server, tabs, sessions } = await setup([60_000, 0]);
+    const [a, b] = sessions;
+
+    server.latest().serverClose(1006, "gone");
+    await waitFor(() => expect(a.connectionState.status).toBe("reconnecting"));
+    a.disconnect();
+    await waitFor(() => expect(tabs[1].isLeader).toBe(true));
+    await waitFor(() => expect(server.sockets).toHaveLength(2));
+    server.latest().open();
+    await waitFor(() => expect(b.isConnected).toBe(true));
+    expect(tabs[0].isLeader).toBe(false);
+
+    b.disconnect();
+  });
+
+  test("the leader steps down when its session gives up", async () => {
+    const { server, tabs, sessions } = await setup([null, 0]);
+    const [a, b] = sessions;
+
+    server.latest().serverClose(1006, "gone");
+    await waitFor(() => expect(a.connectionState.status).toBe("failed"));
+    await waitFor(() => expect(tabs[1].isLeader).toBe(true));
+    await waitFor(() => expect(server.sockets).toHaveLength(2));
+    server.latest().open();
+    await waitFor(() => expect(b.isConnected).toBe(true));
+
+    b.disconnect();
+  });
+
+  test("a follower reconnects when it sends while the leader is not connected", async () => {
+    const { server, sessions } = await setup();
+    const [a, b] = sessions;
+    const states: string[] = [];
+    b.subscribeConnectionState((s) => states.push(s.status));
+
+    server.latest().readyState = 2; // closing, its close event still to come
+    b.send("UP", 1);
+    await waitFor(() => expect(states).toContain("reconnecting"));
+    expect(server.latest().sent).not.toContain(
+      JSON.stringify({ type: "UP", data: 1 })
+    );
+
+    a.disconnect();
+    b.disconnect();
+  });
+
+  test("close() hands the connection over to another tab", async () => {
+    const { server, tabs, sessions } = await setup();
+    const [a, b] = sessions;
+
+    tabs[0].close();
+    await waitFor(() => expect(tabs[1].isLeader).toBe(true));
+    await waitFor(() => expect(server.sockets).toHaveLength(2));
+    server.latest().open();
+    // the first tab's session reconnects, now as a follower
+    await waitFor(() => expect(a.isConnected).toBe(true));
+    await waitFor(() => expect(b.isConnected).toBe(true));
+    expect(tabs[0].isLeader).toBe(false);
+    expect(server.sockets).toHaveLength(2);
+
+    a.disconnect();
+    b.disconnect();
+  });
+
+  test("connects directly without the Web Locks API", () => {
+    delete (navigator as any).locks;
+    const server = createFakeTransport();
+    const tab = new CrossTabConnection({ transport: server.factory });
+    expect(tab.transport("ws://x")).toBe(server.latest());
+  });
+});
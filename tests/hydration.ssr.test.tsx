@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { create } from "zustand";
+import { useSynced } from "../src/react/synced-reducer";
+import { Session, SessionProvider } from "../src/session";
+import { synced } from "../src/zustand/synced-store";
+
+describe("server-side rendering", () => {
+  test("renders synced state from a snapshot without a browser", () => {
+    const session = new Session({ url: "ws://x" });
+    session.hydrate({ Counter: { count: 5 }, Todos: { todos: ["a"] } });
+    const useTodos = create<{ todos: string[] }>()(
+      synced(() => ({ todos: [] as string[] }), { key: "Todos", session })
+    );
+
+    const App = () => {
+      const { count } = useSynced("Counter", { count: 0 }, session);
+      const todos = useTodos((s) => s.todos);
+      return (
+        <p>
+          {count}:{todos.join(",")}
+        </p>
+      );
+    };
+    const html = renderToString(
+      <SessionProvider url="ws://x" wsAuth autoconnect>
+        <App />
+      </SessionProvider>
+    );
+    expect(html).toContain("5<!-- -->:<!-- -->a");
+  });
+
+  test("the provider's session is hydrated before the first render", () => {
+    const App = () => {
+      const { count } = useSynced("Counter", { count: 0 });
+      return <p>{count}</p>;
+    };
+    const html = renderToString(
+      <SessionProvider url="ws://x" snapshot={{ Counter: { count: 7 } }}>
+        <App />
+      </SessionProvider>
+    );
+    expect(html).toContain("<p>7</p>");
+  });
+});
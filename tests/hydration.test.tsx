@@ -0,0 +1,78 @@
+import { act, render, screen } from "@testing-library/react";
+import React from "react";
+import { create } from "zustand";
+import { serializeSnapshot } from "../src/hydration";
+import { useSynced } from "../src/react/synced-reducer";
+import { Session } from "../src/session";
+import { synced } from "../src/zustand/synced-store";
+import { createFakeTransport } from "./utils/mocks";
+
+const connected = () => {
+  const transport = createFakeTransport();
+  const session = new Session({ url: "ws://x", transport: transport.factory });
+  session.connect();
+  transport.latest().open();
+  return { session, socket: transport.latest() };
+};
+
+type Notes = { notes: string[]; draft: string };
+const createNotes = (session: Session) =>
+  create<Notes>()(
+    synced(() => ({ notes: [] as string[], draft: "" }), {
+      key: "Notes",
+      session,
+      syncAttributes: ["notes"],
+    })
+  );
+
+const Counter = ({ session }: { session: Session }) => {
+  const { count } = useSynced("Counter", { count: 0 }, session);
+  return <span data-testid="count">{count}</span>;
+};
+
+describe("hydration", () => {
+  test("stores created after hydrate() start from the snapshot", () => {
+    const { session, socket } = connected();
+    session.hydrate({ Notes: { notes: ["a"], draft: "ignored" } });
+
+    const useNotes = createNotes(session);
+    expect(useNotes.getState()).toMatchObject({ notes: ["a"], draft: "" });
+
+    // the server's state wins, later stores no longer see the snapshot
+    socket.receive(JSON.stringify({ type: "_SET:Notes", data: { notes: [] } }));
+    expect(useNotes.getState().notes).toEqual([]);
+    expect(session.hydratedState("Notes")).toBeUndefined();
+    useNotes.sync.cleanup();
+  });
+
+  test("hydrate() replaces the state of existing stores", () => {
+    const session = new Session({ url: "ws://x" });
+    const useNotes = createNotes(session);
+    session.hydrate({ Notes: { notes: ["b"] } });
+    expect(useNotes.getState().notes).toEqual(["b"]);
+    // not a local change, nothing to send
+    expect(useNotes.sync.obj["_patches"]).toHaveLength(0);
+    useNotes.sync.cleanup();
+  });
+
+  test("useSynced starts from the snapshot", () => {
+    const { session, socket } = connected();
+    session.hydrate(JSON.parse(serializeSnapshot({ Counter: { count: 5 } })));
+    render(<Counter session={session} />);
+    expect(screen.getByTestId("count").textContent).toBe("5");
+
+    act(() => {
+      socket.receive(
+        JSON.stringify({ type: "_SET:Counter", data: { count: 6 } })
+      );
+    });
+    expect(screen.getByTestId("count").textContent).toBe("6");
+  });
+
+  test("serializeSnapshot escapes script-breaking characters", () => {
+    const json = serializeSnapshot({ k: "</script>\u2028" });
+    expect(json).not.toContain("</script>");
+    expect(json).not.toContain("\u2028");
+    expect(JSON.parse(json)).toEqual({ k: "</script>\u2028" });
+  });
+});
@@ -0,0 +1,75 @@
+import { createLogger, LogAdapter, silentLogger } from "../src/logger";
+import { Session } from "../src/session";
+import { Sync } from "../src/sync";
+
+const recorder = () => {
+  const records: [string, string, string, ...unknown[]][] = [];
+  const adapter: LogAdapter = {
+    log: (level, namespace, message, ...args) =>
+      records.push([level, namespace, message, ...args]),
+  };
+  return { records, adapter };
+};
+
+describe("createLogger", () => {
+  test("filters by level", () => {
+    const { records, adapter } = recorder();
+    const logger = createLogger({ level: "info", adapter }).child("session");
+    logger.debug("hidden");
+    logger.info("shown", 1);
+    logger.error("also shown");
+    expect(records).toEqual([
+      ["info", "session", "shown", 1],
+      ["error", "session", "also shown"],
+    ]);
+  });
+
+  test("filters by namespace, including children", () => {
+    const { records, adapter } = recorder();
+    const root = createLogger({
+      level: "debug",
+      adapter,
+      namespaces: ["sync"],
+    });
+    root.child("session").warn("a");
+    root.child("sync:todos").warn("b");
+    root.child("sync").child("todos").warn("c");
+    root.child("syncer").warn("d");
+    expect(records.map((r) => [r[1], r[2]])).toEqual([
+      ["sync:todos", "b"],
+      ["sync:todos", "c"],
+    ]);
+  });
+
+  test("logs to the console by default, silentLogger logs nothing", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    createLogger().child("zustand").warn("careful", 2);
+    createLogger().child("zustand").info("not by default");
+    silentLogger.error("nothing");
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith("[zustand] careful", 2);
+    warn.mockRestore();
+  });
+});
+
+describe("Session logger", () => {
+  test("routes session and sync logs through the adapter", () => {
+    const { records, adapter } = recorder();
+    const session = new Session({
+      url: "ws://x",
+      logger: createLogger({ level: "debug", adapter }),
+    });
+    session.registerInit("todos", () => {});
+    expect(() => session.deregisterEvent("MISSING")).toThrow();
+
+    const sync = new Sync("todos", session);
+    sync.registerExposedActions({ ADD: () => {} });
+    expect(() => sync.registerExposedActions({ ADD: () => {} })).toThrow();
+
+    expect(records.map((r) => [r[0], r[1]])).toEqual([
+      ["debug", "session"],
+      ["error", "session"],
+      ["error", "sync:todos"],
+    ]);
+  });
+});
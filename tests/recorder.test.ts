@@ -0,0 +1,185 @@
+import { parseTrace, replayTrace, TrafficRecorder } from "../src/recorder";
+import { Session } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+const connected = () => {
+  const transport = createFakeTransport();
+  const session = new Session({
+    url: "ws://x",
+    label: "Srv",
+    transport: transport.factory,
+    binaryType: "arraybuffer",
+  });
+  session.connect();
+  transport.latest().open();
+  return { session, socket: transport.latest() };
+};
+
+describe("TrafficRecorder", () => {
+  test("records inbound and outbound frames", () => {
+    const { session, socket } = connected();
+    const recorder = new TrafficRecorder({
+      redact: (frame) =>
+        frame.type === "LOGIN" ? { ...frame, data: "***" } : frame,
+    });
+    recorder.attach(session);
+    session.on("_PATCH:todos", () => {});
+    session.on("FILE", () => {});
+
+    session.send("LOGIN", { password: "secret" });
+    socket.receive(JSON.stringify({ type: "_PATCH:todos", data: [] }));
+    socket.receive(
+      JSON.stringify({
+        type: "_BIN_META",
+        data: { type: "FILE", metadata: { name: "a" } },
+      })
+    );
+    socket.receive(new Uint8Array([104, 105]).buffer);
+
+    const { label, entries } = recorder.trace;
+    expect(label).toBe("Srv");
+    expect(entries).toEqual([
+      expect.objectContaining({
+        direction: "out",
+        type: "LOGIN",
+        frame: { type: "LOGIN", data: "***" },
+      }),
+      expect.objectContaining({
+        direction: "in",
+        type: "_PATCH:todos",
+        key: "todos",
+      }),
+      expect.objectContaining({
+        direction: "in",
+        type: "FILE",
+        frame: { type: "FILE", data: { name: "a" } },
+        binary: "aGk=",
+      }),
+    ]);
+    expect(entries[0].t).toBeGreaterThanOrEqual(0);
+
+    recorder.stop();
+    session.send("AFTER", 1);
+    expect(recorder.trace.entries).toHaveLength(3);
+    session.disconnect();
+  });
+
+  test("keeps only the most recent maxEntries", () => {
+    const { session } = connected();
+    const recorder = new TrafficRecorder({ maxEntries: 2 });
+    recorder.attach(session);
+    ["A", "B", "C"].forEach((type) => session.send(type, null));
+    expect(recorder.trace.entries.map((e) => e.type)).toEqual(["B", "C"]);
+    session.disconnect();
+  });
+
+  test("a throwing redact does not drop the live frame", () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const { session, socket } = connected();
+    const recorder = new TrafficRecorder({
+      redact: () => {
+        throw new Error("redact");
+      },
+    });
+    recorder.attach(session);
+    const listener = jest.fn();
+    session.on("EVT", listener);
+
+    session.send("OUT", 1);
+    socket.receive(JSON.stringify({ type: "EVT", data: 2 }));
+    expect(JSON.parse(socket.sent[0] as string)).toEqual({
+      type: "OUT",
+      data: 1,
+    });
+    expect(listener).toHaveBeenCalledWith(2);
+    expect(recorder.trace.entries).toHaveLength(0);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+    session.disconnect();
+  });
+});
+
+describe("replayTrace", () => {
+  test("reproduces a recorded session from its serialized trace", async () => {
+    const { session, socket } = connected();
+    const recorder = new TrafficRecorder();
+    recorder.attach(session);
+    session.on("EVT", () => {});
+    session.on("FILE", () => {});
+    socket.receive(JSON.stringify({ type: "EVT", data: { n: 1 } }));
+    session.send("ACK", 1);
+    socket.receive(
+      JSON.stringify({
+        type: "_BIN_META",
+        data: { type: "FILE", metadata: { name: "a" } },
+      })
+    );
+    socket.receive(new Uint8Array([1, 2]).buffer);
+    const json = recorder.serialize();
+    session.disconnect();
+
+    const replayed = new Session({ url: "ws://x" });
+    const evt = jest.fn();
+    const file = jest.fn();
+    replayed.on("EVT", evt);
+    replayed.on("FILE", file);
+    await replayTrace(replayed, parseTrace(json));
+
+    expect(evt).toHaveBeenCalledWith({ n: 1 });
+    expect(file).toHaveBeenCalledWith({
+      data: new Uint8Array([1, 2]).buffer,
+      name: "a",
+    });
+  });
+
+  test("realtime replay keeps the recorded gaps", async () => {
+    jest.useFakeTimers();
+    const session = new Session({ url: "ws://x" });
+    const listener = jest.fn();
+    session.on("E", listener);
+    const entry = (t: number, n: number) => ({
+      t,
+      direction: "in" as const,
+      type: "E",
+      frame: { type: "E", data: n },
+    });
+
+    const done = replayTrace(
+      session,
+      { version: 1, startedAt: 0, entries: [entry(100, 1), entry(300, 2)] },
+      { timing: "realtime", speed: 2 }
+    );
+    jest.advanceTimersByTime(0);
+    expect(listener.mock.calls).toEqual([[1]]);
+    jest.advanceTimersByTime(99);
+    expect(listener).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    expect(listener.mock.calls).toEqual([[1], [2]]);
+    await done;
+    jest.useRealTimers();
+  });
+
+  test("realtime replay rejects when a delivery throws", async () => {
+    const session = new Session({ url: "ws://x" });
+    jest.spyOn(session, "handleReceiveEvent").mockImplementation(() => {
+      throw new Error("delivery");
+    });
+    const trace = {
+      version: 1 as const,
+      startedAt: 0,
+      entries: [
+        { t: 0, direction: "in" as const, type: "E", frame: { type: "E" } },
+      ],
+    };
+    await expect(
+      replayTrace(session, trace, { timing: "realtime" })
+    ).rejects.toThrow("delivery");
+    await expect(replayTrace(session, trace)).rejects.toThrow("delivery");
+  });
+
+  test("parseTrace rejects unknown versions", () => {
+    expect(() => parseTrace('{"version":2,"entries":[]}')).toThrow(
+      "unsupported trace version 2"
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { act, render, screen } from "@testing-library/react";
+import React from "react";
+import { RemotePromptsOptions, useRemotePrompts } from "../src/remote-prompts";
+import { Session } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+// renders the open dialogs as buttons, like an app would with its components
+const Prompts = ({
+  session,
+  options,
+}: {
+  session: Session;
+  options?: RemotePromptsOptions;
+}) => {
+  const prompts = useRemotePrompts(session, options);
+  return (
+    <>
+      {prompts.map((p) =>
+        p.kind === "confirm" ? (
+          <button key={p.id} onClick={() => p.answer(true)}>
+            {p.message}
+          </button>
+        ) : (
+          <button key={p.id} onClick={() => p.answer(p.defaultValue ?? "")}>
+            {p.message}
+          </button>
+        )
+      )}
+    </>
+  );
+};
+
+const setup = (options?: RemotePromptsOptions) => {
+  const transport = createFakeTransport();
+  const session = new Session({ url: "ws://x", transport: transport.factory });
+  session.connect();
+  const socket = transport.latest();
+  socket.open();
+  const view = render(<Prompts session={session} options={options} />);
+  const receive = (frame: object) =>
+    act(() => socket.receive(JSON.stringify(frame)));
+  const sent = () => socket.sent.map((s) => JSON.parse(s as string));
+  return { view, receive, sent, session, transport };
+};
+
+const flush = () => act(() => Promise.resolve());
+
+describe("useRemotePrompts", () => {
+  test("answers _CONFIRM and _PROMPT through the rendered dialogs", async () => {
+    const { receive, sent } = setup();
+    receive({ type: "_CONFIRM", id: "c1", data: { message: "Delete?" } });
+    receive({
+      type: "_PROMPT",
+      id: "p1",
+      data: { message: "Name?", defaultValue: "Ada" },
+    });
+
+    act(() => screen.getByText("Name?").click());
+    await flush();
+    expect(screen.queryByText("Name?")).toBeNull();
+    act(() => screen.getByText("Delete?").click());
+    await flush();
+
+    expect(sent()).toEqual([
+      { type: "_RESPONSE", id: "p1", data: "Ada" },
+      { type: "_RESPONSE", id: "c1", data: true },
+    ]);
+  });
+
+  test("removes open dialogs when the connection drops", async () => {
+    const { receive, sent, session, transport } = setup();
+    receive({ type: "_CONFIRM", id: "c1", data: { message: "Delete?" } });
+    act(() => session.disconnect());
+    await flush();
+    expect(screen.queryByText("Delete?")).toBeNull();
+
+    session.connect();
+    transport.latest().open();
+    await flush();
+    expect(sent()).toEqual([]);
+    expect(transport.latest().sent).toEqual([]);
+  });
+
+  test("cancels open dialogs on unmount", async () => {
+    const { view, receive, sent } = setup();
+    receive({ type: "_CONFIRM", id: "c1", data: { message: "Delete?" } });
+    receive({ type: "_PROMPT", id: "p1", data: { message: "Name?" } });
+    view.unmount();
+    await flush();
+    expect(sent()).toEqual([
+      { type: "_RESPONSE", id: "c1", data: false },
+      { type: "_RESPONSE", id: "p1", data: null },
+    ]);
+  });
+
+  test("writes to the clipboard and reports failures", async () => {
+    const writeClipboard = jest
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("denied"));
+    const { receive, sent } = setup({ writeClipboard });
+    receive({ type: "_CLIPBOARD", id: "k1", data: { text: "abc" } });
+    await flush();
+    receive({ type: "_CLIPBOARD", id: "k2", data: { text: "def" } });
+    await flush();
+
+    expect(writeClipboard).toHaveBeenCalledWith("abc");
+    expect(sent()).toEqual([
+      { type: "_RESPONSE", id: "k1", data: null },
+      { type: "_RESPONSE", id: "k2", error: "denied" },
+    ]);
+  });
+
+  test("navigates to http(s) urls only", () => {
+    const navigate = jest.fn();
+    const { receive } = setup({ navigate });
+    receive({ type: "_NAVIGATE", data: { url: "/reports", replace: true } });
+    receive({ type: "_NAVIGATE", data: { url: "javascript:alert(1)" } });
+    expect(navigate).toHaveBeenCalledTimes(1);
+    expect(navigate).toHaveBeenCalledWith({ url: "/reports", replace: true });
+  });
+});
@@ -0,0 +1,134 @@
+import { renderHook } from "@testing-library/react";
+import { useRemoteToast } from "../src/remote-toast";
+import { Session } from "../src/session";
+import { createFakeTransport, createToastMock } from "./utils/mocks";
+
+const setup = (prefix?: string) => {
+  const transport = createFakeTransport();
+  const session = new Session({ url: "ws://x", transport: transport.factory });
+  session.connect();
+  const socket = transport.latest();
+  socket.open();
+  const toast = { ...createToastMock(), dismiss: jest.fn() };
+  const hook = renderHook(() => useRemoteToast(session, toast, prefix));
+  const receive = (type: string, data: unknown) =>
+    socket.receive(JSON.stringify({ type, data }));
+  const sent = () => socket.sent.map((s) => JSON.parse(s as string));
+  return { session, toast, hook, receive, sent };
+};
+
+describe("useRemoteToast", () => {
+  test("shows toasts with id, duration and description", () => {
+    const { toast, receive } = setup("Server: ");
+    receive("_TOAST", {
+      message: "Saved",
+      type: "success",
+      id: "save",
+      duration: 2000,
+      description: "3 files",
+    });
+    receive("_TOAST", { message: "Hello" }); // neutral, no message()
+
+    expect(toast.success).toHaveBeenCalledWith(
+      "Server: Saved",
+      expect.objectContaining({
+        id: "save",
+        duration: 2000,
+        description: "3 files",
+      })
+    );
+    expect(toast.info.mock.calls[0][0]).toBe("Server: Hello");
+  });
+
+  test("dismisses toasts by id", () => {
+    const { toast, receive } = setup();
+    receive("_TOAST_DISMISS", { id: "save" });
+    expect(toast.dismiss).toHaveBeenCalledWith("save");
+  });
+
+  test("ignores dismissals without an id", () => {
+    const { toast, receive } = setup();
+    receive("_TOAST_DISMISS", {});
+    expect(toast.dismiss).not.toHaveBeenCalled();
+  });
+
+  test("buttons send their action back", () => {
+    const { toast, receive, sent } = setup();
+    receive("_TOAST", {
+      message: "Deleted",
+      id: "del",
+      type: "info",
+      action: { label: "Undo", key: "Files", action: { type: "UNDO" } },
+      cancel: { label: "Details", action: { type: "DETAILS" } },
+    });
+    const options = toast.info.mock.calls[0][1];
+    expect(options.action.label).toBe("Undo");
+    options.action.onClick();
+    options.cancel.onClick();
+
+    expect(sent()).toEqual([
+      { type: "_ACTION:Files", data: { type: "UNDO" } },
+      {
+        type: "_TOAST_ACTION",
+        data: { id: "del", action: { type: "DETAILS" } },
+      },
+    ]);
+  });
+
+  test("promise toasts load until settled", () => {
+    const { toast, receive } = setup();
+    const exporting = {
+      message: "Exporting…",
+      type: "promise",
+      id: "export",
+      success: "Done",
+      error: "Failed",
+    };
+    receive("_TOAST", exporting);
+    expect(toast.loading).toHaveBeenCalledWith(
+      "Exporting…",
+      expect.objectContaining({ id: "export", duration: Infinity })
+    );
+
+    receive("_TOAST_SETTLE", { id: "export", ok: true });
+    expect(toast.success).toHaveBeenCalledWith(
+      "Done",
+      expect.objectContaining({ id: "export" })
+    );
+    // settled once only
+    receive("_TOAST_SETTLE", { id: "export", ok: false });
+    expect(toast.error).not.toHaveBeenCalled();
+
+    receive("_TOAST", exporting);
+    receive("_TOAST_SETTLE", { id: "export", ok: false, message: "Disk full" });
+    expect(toast.error).toHaveBeenCalledWith(
+      "Disk full",
+      expect.objectContaining({ id: "export" })
+    );
+  });
+
+  test("fails promise toasts when the connection drops", () => {
+    const { session, toast, receive } = setup();
+    receive("_TOAST", {
+      message: "Exporting…",
+      type: "promise",
+      id: "export",
+      error: "Failed",
+    });
+    session.disconnect();
+    expect(toast.error).toHaveBeenCalledWith(
+      "Failed",
+      expect.objectContaining({ id: "export" })
+    );
+    // not again on a late settle
+    receive("_TOAST_SETTLE", { id: "export", ok: true });
+    expect(toast.success).not.toHaveBeenCalled();
+  });
+
+  test("deregisters on unmount", () => {
+    const { toast, hook, receive } = setup();
+    hook.unmount();
+    receive("_TOAST", { message: "late", type: "error" });
+    expect(toast.error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+import { render, waitFor } from "@testing-library/react";
+import React, { useContext } from "react";
+import { applyAuth, AuthContext } from "../src/auth";
+import {
+  DefaultSessionContext,
+  Session,
+  SessionProvider,
+} from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+describe("applyAuth", () => {
+  test("appends the token as a query parameter", () => {
+    expect(applyAuth("ws://h/ws", [], { token: "a b" }).url).toBe(
+      "ws://h/ws?token=a%20b"
+    );
+    expect(
+      applyAuth("ws://h/ws?x=1#frag", [], { token: "t", param: "auth" }).url
+    ).toBe("ws://h/ws?x=1&auth=t#frag");
+  });
+
+  test("offers the token as a subprotocol", () => {
+    expect(
+      applyAuth("ws://h", ["v1"], { token: "t", via: "protocol" })
+    ).toEqual({
+      url: "ws://h",
+      protocols: ["v1", "t"],
+    });
+  });
+});
+
+describe("Session getAuth", () => {
+  test("fetches credentials before every connection attempt", async () => {
+    const transport = createFakeTransport();
+    let n = 0;
+    const getAuth = jest.fn(async (_ctx: AuthContext) => ({
+      token: `t${++n}`,
+    }));
+    const session = new Session({
+      url: "ws://h/ws",
+      transport: transport.factory,
+      getAuth,
+      reconnect: { nextDelay: () => 0 },
+    });
+    session.connect();
+    await waitFor(() => expect(transport.sockets).toHaveLength(1));
+    expect(transport.latest().url).toBe("ws://h/ws?token=t1");
+    transport.latest().open();
+
+    transport.latest().serverClose(1006);
+    await waitFor(() => expect(transport.sockets).toHaveLength(2));
+    expect(transport.latest().url).toBe("ws://h/ws?token=t2");
+    expect(getAuth.mock.calls.map((c) => c[0])).toEqual([
+      { attempt: 0, refresh: false },
+      { attempt: 1, refresh: false },
+    ]);
+    session.disconnect();
+  });
+
+  test("passes configured protocols and protocol tokens to the transport", async () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://h",
+      transport: transport.factory,
+      protocols: "sync.v1",
+      getAuth: () => ({ token: "secret", via: "protocol" }),
+    });
+    session.connect();
+    await waitFor(() => expect(transport.sockets).toHaveLength(1));
+    expect(transport.latest().protocols).toEqual(["sync.v1", "secret"]);
+    session.disconnect();
+  });
+
+  test("refreshes the token and retries immediately on an auth failure code", async () => {
+    const transport = createFakeTransport();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const getAuth = jest.fn(({ refresh }: AuthContext) => ({
+      token: refresh ? "fresh" : "stale",
+    }));
+    const session = new Session({
+      url: "ws://h",
+      transport: transport.factory,
+      getAuth,
+      reconnect: { nextDelay: () => 60000 },
+    });
+    session.connect();
+    await waitFor(() => expect(transport.sockets).toHaveLength(1));
+    transport.latest().serverClose(4401, "token expired");
+
+    await waitFor(() => expect(transport.sockets).toHaveLength(2));
+    expect(transport.latest().url).toBe("ws://h?token=fresh");
+
+    // a second rejection in a row falls back to the regular backoff
+    transport.latest().serverClose(4401, "token expired");
+    await new Promise((r) => setTimeout(r, 10));
+    expect(transport.sockets).toHaveLength(2);
+    expect(session.connectionState.status).toBe("reconnecting");
+    warn.mockRestore();
+    session.disconnect();
+  });
+
+  test("disconnect while fetching credentials cancels the attempt", async () => {
+    const transport = createFakeTransport();
+    let resolve!: (auth: { token: string }) => void;
+    const session = new Session({
+      url: "ws://h",
+      transport: transport.factory,
+      getAuth: () => new Promise((r) => (resolve = r)),
+    });
+    session.connect();
+    await waitFor(() => expect(resolve).toBeDefined());
+    session.disconnect();
+    resolve({ token: "late" });
+    await new Promise((r) => setTimeout(r, 0));
+    expect(transport.sockets).toHaveLength(0);
+    expect(session.connectionState.status).toBe("closed");
+  });
+
+  test("SessionProvider updates getAuth without rebuilding the session", () => {
+    const info = jest.spyOn(console, "info").mockImplementation(() => {});
+    const sessions: (Session | null)[] = [];
+    function Probe() {
+      sessions.push(useContext(DefaultSessionContext));
+      return null;
+    }
+    const first = jest.fn(() => ({ token: "a" }));
+    const second = jest.fn(() => ({ token: "b" }));
+    const { rerender } = render(
+      <SessionProvider url="ws://h" getAuth={first}>
+        <Probe />
+      </SessionProvider>
+    );
+    rerender(
+      <SessionProvider url="ws://h" getAuth={second}>
+        <Probe />
+      </SessionProvider>
+    );
+    const session = sessions[sessions.length - 1]!;
+    expect(new Set(sessions.filter(Boolean)).size).toBe(1);
+    expect(session.getAuth).toBe(second);
+    info.mockRestore();
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  BINARY_ENVELOPE_MAGIC,
+  decodeBinaryEnvelope,
+  encodeBinaryEnvelope,
+} from "../src/binary-envelope";
+import { msgpackCodec } from "../src/codec";
+import { silentLogger } from "../src/logger";
+import { Session } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+describe("binary envelope", () => {
+  test("round-trips type, metadata and payload", () => {
+    const message = encodeBinaryEnvelope(
+      "UPLOAD",
+      { name: "ä.bin" },
+      bytes(1, 2, 3)
+    );
+    expect(decodeBinaryEnvelope(message)).toEqual({
+      type: "UPLOAD",
+      metadata: { name: "ä.bin" },
+      data: bytes(1, 2, 3),
+    });
+  });
+
+  test("returns null for other binary messages", () => {
+    expect(decodeBinaryEnvelope(bytes(1, 2, 3))).toBe(null);
+    expect(decodeBinaryEnvelope(bytes())).toBe(null);
+  });
+
+  test("rejects a truncated header", () => {
+    const message = encodeBinaryEnvelope("X", null, bytes());
+    expect(() => decodeBinaryEnvelope(message.slice(0, -1))).toThrow(
+      "exceeds message size"
+    );
+  });
+});
+
+describe("Session binary framing", () => {
+  const connect = (
+    session: Session,
+    transport: ReturnType<typeof createFakeTransport>
+  ) => {
+    session.connect();
+    transport.latest().open();
+    return transport.latest();
+  };
+
+  test("sends a single envelope with binaryFraming envelope", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      binaryFraming: "envelope",
+    });
+    const socket = connect(session, transport);
+    expect(socket.binaryType).toBe("arraybuffer");
+
+    session.sendBinary("FILE", { part: 1 }, bytes(9));
+    expect(socket.sent).toHaveLength(1);
+    expect(decodeBinaryEnvelope(socket.sent[0] as ArrayBuffer)).toEqual({
+      type: "FILE",
+      metadata: { part: 1 },
+      data: bytes(9),
+    });
+    session.disconnect();
+  });
+
+  test("keeps sending _BIN_META pairs by default", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+    });
+    const socket = connect(session, transport);
+
+    session.sendBinary("FILE", { part: 1 }, bytes(9));
+    expect(socket.sent).toHaveLength(2);
+    expect(JSON.parse(socket.sent[0] as string).type).toBe("_BIN_META");
+    session.disconnect();
+  });
+
+  test("dispatches envelopes next to legacy pairs", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      binaryType: "arraybuffer",
+    });
+    const a = jest.fn();
+    const b = jest.fn();
+    session.on("A", a);
+    session.on("B", b);
+    const socket = connect(session, transport);
+
+    socket.receive(encodeBinaryEnvelope("B", { n: 2 }, bytes(2)));
+    socket.receive(
+      JSON.stringify({
+        type: "_BIN_META",
+        data: { type: "A", metadata: { n: 1 } },
+      })
+    );
+    socket.receive(bytes(1));
+
+    expect(b).toHaveBeenCalledWith({ data: bytes(2), n: 2 });
+    expect(a).toHaveBeenCalledWith({ data: bytes(1), n: 1 });
+    session.disconnect();
+  });
+
+  test("takes a legacy payload as is, even if it looks like an envelope", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      binaryType: "arraybuffer",
+    });
+    const a = jest.fn();
+    session.on("A", a);
+    const socket = connect(session, transport);
+
+    const payload = encodeBinaryEnvelope("B", null, bytes(2));
+    socket.receive(
+      JSON.stringify({ type: "_BIN_META", data: { type: "A", metadata: {} } })
+    );
+    socket.receive(payload);
+    expect(a).toHaveBeenCalledWith({ data: payload });
+    session.disconnect();
+  });
+
+  test("drops a malformed envelope", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      binaryType: "arraybuffer",
+      logger: silentLogger,
+    });
+    const listener = jest.fn();
+    session.on("B", listener);
+    const socket = connect(session, transport);
+
+    const header = new TextEncoder().encode("{not json");
+    const message = new Uint8Array(8 + header.length);
+    message.set(BINARY_ENVELOPE_MAGIC);
+    new DataView(message.buffer).setUint32(4, header.length);
+    message.set(header, 8);
+    expect(() => socket.receive(message.buffer)).not.toThrow();
+
+    socket.receive(encodeBinaryEnvelope("B", { n: 2 }, bytes(2)));
+    expect(listener).toHaveBeenCalledTimes(1);
+    session.disconnect();
+  });
+
+  test("recognizes envelopes next to a binary codec", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      codec: msgpackCodec,
+    });
+    const listener = jest.fn();
+    session.on("B", listener);
+    const socket = connect(session, transport);
+
+    socket.receive(encodeBinaryEnvelope("B", { n: 2 }, bytes(2)));
+    socket.receive(
+      (msgpackCodec.encode({ type: "B", data: 3 }) as Uint8Array).slice().buffer
+    );
+    expect(listener.mock.calls).toEqual([[{ data: bytes(2), n: 2 }], [3]]);
+    session.disconnect();
+  });
+
+  test("forces binaryType arraybuffer for envelopes", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const session = new Session({
+      url: "ws://x",
+      binaryType: "blob",
+      binaryFraming: "envelope",
+    });
+    expect(session.binaryType).toBe("arraybuffer");
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,182 @@
+import { Session } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+const setup = () => {
+  const transport = createFakeTransport();
+  const session = new Session({
+    url: "ws://x",
+    transport: transport.factory,
+    binaryType: "arraybuffer",
+  });
+  session.connect();
+  transport.latest().open();
+  return { session, transport, socket: transport.latest() };
+};
+
+// lets the channel sockets and zero-delay retries settle
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const sentFrames = (sent: unknown[]) =>
+  sent.filter((m) => typeof m === "string").map((m) => JSON.parse(m as string));
+
+describe("Session channels", () => {
+  test("channels open with their parent and share its socket", async () => {
+    const { session, transport, socket } = setup();
+    const docs = session.channel("docs");
+    expect(session.channel("docs")).toBe(docs);
+    expect(docs.label).toBe("Server/docs");
+
+    await flush();
+    expect(docs.isConnected).toBe(true);
+    expect(docs.connectionState).toEqual({ status: "open" });
+
+    docs.send("EDIT", { id: 1 });
+    expect(transport.sockets).toHaveLength(1);
+    expect(sentFrames(socket.sent)).toEqual([
+      { type: "docs/EDIT", data: { id: 1 } },
+    ]);
+    session.disconnect();
+  });
+
+  test("inbound events are routed to the channel without its prefix", async () => {
+    const { session, socket } = setup();
+    const docs = session.channel("docs");
+    const chat = session.channel("chat");
+    await flush();
+
+    const onParent = jest.fn();
+    const onDocs = jest.fn();
+    const onChat = jest.fn();
+    session.registerEvent("_SET:todos", onParent);
+    docs.registerEvent("_SET:todos", onDocs);
+    chat.registerEvent("_SET:todos", onChat);
+
+    socket.receive(JSON.stringify({ type: "docs/_SET:todos", data: [1] }));
+    socket.receive(JSON.stringify({ type: "_SET:todos", data: [2] }));
+    expect(onDocs).toHaveBeenCalledWith([1]);
+    expect(onParent).toHaveBeenCalledWith([2]);
+    expect(onChat).not.toHaveBeenCalled();
+    session.disconnect();
+  });
+
+  test("events of unknown channels are handled by the parent", async () => {
+    const { session, socket } = setup();
+    const handler = jest.fn();
+    session.registerEvent("admin/STATUS", handler);
+
+    socket.receive(JSON.stringify({ type: "admin/STATUS", data: "ok" }));
+    expect(handler).toHaveBeenCalledWith("ok");
+    session.disconnect();
+  });
+
+  test("requests are answered on the channel", async () => {
+    const { session, socket } = setup();
+    const docs = session.channel("docs");
+    await flush();
+
+    const response = docs.request("LOAD", { id: 1 });
+    const [frame] = sentFrames(socket.sent);
+    expect(frame.type).toBe("docs/LOAD");
+    socket.receive(
+      JSON.stringify({ type: "docs/_RESPONSE", id: frame.id, data: "text" })
+    );
+    await expect(response).resolves.toBe("text");
+    session.disconnect();
+  });
+
+  test("binary events use the parent's framing", async () => {
+    const { session, socket } = setup();
+    const docs = session.channel("docs");
+    await flush();
+
+    const bytes = new Uint8Array([1, 2, 3]).buffer;
+    docs.sendBinary("FILE", { name: "a" }, bytes);
+    expect(sentFrames(socket.sent)).toEqual([
+      {
+        type: "_BIN_META",
+        data: { type: "docs/FILE", metadata: { name: "a" } },
+      },
+    ]);
+    expect(socket.sent[1]).toBe(bytes);
+
+    const handler = jest.fn();
+    docs.registerEvent("FILE", handler);
+    socket.receive(
+      JSON.stringify({
+        type: "_BIN_META",
+        data: { type: "docs/FILE", metadata: { name: "b" } },
+      })
+    );
+    socket.receive(bytes);
+    expect(handler).toHaveBeenCalledWith({ data: bytes, name: "b" });
+    session.disconnect();
+  });
+
+  test("channels reconnect when their parent does", async () => {
+    const { session, transport, socket } = setup();
+    const docs = session.channel("docs");
+    await flush();
+
+    socket.serverClose(1006, "gone");
+    await flush();
+    await flush(); // the channel's immediate retry
+    expect(docs.isConnected).toBe(false);
+    expect(docs.connectionState.status).toBe("connecting");
+
+    session.connect(); // instead of waiting for the scheduled retry
+    transport.latest().open();
+    await flush();
+    expect(docs.isConnected).toBe(true);
+    session.disconnect();
+  });
+
+  test("channels close with their parent and open with it again", async () => {
+    const { session, transport } = setup();
+    const docs = session.channel("docs");
+    await flush();
+
+    session.disconnect();
+    await flush();
+    expect(docs.connectionState).toEqual({ status: "closed" });
+
+    session.connect();
+    transport.latest().open();
+    await flush();
+    expect(docs.isConnected).toBe(true);
+    session.disconnect();
+  });
+
+  test("channels stop when their parent stops on a close code", async () => {
+    const { session, socket } = setup();
+    const docs = session.channel("docs");
+    await flush();
+
+    socket.serverClose(1008, "policy");
+    await flush();
+    await flush();
+    expect(session.connectionState.status).toBe("closed");
+    expect(docs.connectionState).toEqual(session.connectionState);
+    expect(docs.isConnected).toBe(false);
+  });
+
+  test("a disconnected channel stops receiving", async () => {
+    const { session, socket } = setup();
+    const docs = session.channel("docs");
+    await flush();
+    const handler = jest.fn();
+    docs.registerEvent("EDIT", handler);
+
+    docs.disconnect();
+    socket.receive(JSON.stringify({ type: "docs/EDIT", data: 1 }));
+    expect(handler).not.toHaveBeenCalled();
+    expect(session.isConnected).toBe(true);
+    session.disconnect();
+  });
+
+  test("channel names cannot contain the separator", () => {
+    const { session } = setup();
+    expect(() => session.channel("a/b")).toThrow("invalid channel name");
+    expect(() => session.channel("")).toThrow("invalid channel name");
+    session.disconnect();
+  });
+});
@@ -0,0 +1,115 @@
+import { resolveClosePolicy } from "../src/close-policy";
+import { Session } from "../src/session";
+import { createFakeTransport, createToastMock } from "./utils/mocks";
+
+describe("resolveClosePolicy", () => {
+  test("matches single codes, lists and ranges, first rule wins", () => {
+    const rules = [
+      { codes: 4000, policy: "stop" as const },
+      { codes: { from: 4000, to: 4099 }, policy: { reconnectAfter: 5 } },
+      { codes: [1001, 1012], policy: "reauth" as const },
+    ];
+    expect(resolveClosePolicy(rules, 4000)).toBe("stop");
+    expect(resolveClosePolicy(rules, 4050)).toEqual({ reconnectAfter: 5 });
+    expect(resolveClosePolicy(rules, 1012)).toBe("reauth");
+    expect(resolveClosePolicy(rules, 1006)).toBe("reconnect");
+  });
+});
+
+describe("Session close codes", () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    jest.useRealTimers();
+  });
+
+  test("stops on a protocol violation and shows the close reason", () => {
+    const transport = createFakeTransport();
+    const toast = createToastMock();
+    const session = new Session({
+      url: "ws://x",
+      label: "Server",
+      toast,
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 100 },
+    });
+    session.connect();
+    transport.latest().open();
+
+    transport.latest().serverClose(1008, "policy violation");
+    expect(toast.error).toHaveBeenCalledWith(
+      "Server: policy violation",
+      expect.objectContaining({ id: expect.any(String) })
+    );
+    expect(session.connectionState).toEqual({
+      status: "closed",
+      close: { code: 1008, reason: "policy violation", wasClean: false },
+    });
+    jest.advanceTimersByTime(1000);
+    expect(transport.sockets).toHaveLength(1);
+
+    // a manual connect() reconnects again
+    session.connect();
+    expect(transport.sockets).toHaveLength(2);
+    session.disconnect();
+  });
+
+  test("waits a fixed delay on 1013 (try again later)", () => {
+    const transport = createFakeTransport();
+    const nextDelay = jest.fn(() => 100);
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay },
+    });
+    session.connect();
+    transport.latest().open();
+
+    transport.latest().serverClose(1013, "overloaded");
+    expect(nextDelay).not.toHaveBeenCalled();
+    expect(session.connectionState).toMatchObject({
+      status: "reconnecting",
+      close: { code: 1013, reason: "overloaded" },
+    });
+    jest.advanceTimersByTime(9999);
+    expect(transport.sockets).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(transport.sockets).toHaveLength(2);
+    session.disconnect();
+  });
+
+  test("user rules take precedence over the defaults", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 100 },
+      closeCodePolicies: [
+        { codes: 1008, policy: "reconnect" },
+        { codes: { from: 4500, to: 4599 }, policy: "stop" },
+      ],
+    });
+    session.connect();
+    transport.latest().open();
+
+    transport.latest().serverClose(1008);
+    jest.advanceTimersByTime(100);
+    expect(transport.sockets).toHaveLength(2);
+    transport.latest().open();
+
+    transport.latest().serverClose(4567, "banned");
+    jest.advanceTimersByTime(1000);
+    expect(transport.sockets).toHaveLength(2);
+    expect(session.lastClose).toEqual({
+      code: 4567,
+      reason: "banned",
+      wasClean: false,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { decode, encode } from "@msgpack/msgpack";
+import WS from "jest-websocket-mock";
+import { jsonCodec, msgpackCodec } from "../src/codec";
+import { Session } from "../src/session";
+
+let server: WS;
+
+beforeEach(() => {
+  server = new WS("ws://localhost");
+});
+
+afterEach(() => {
+  WS.clean();
+});
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+
+describe("codecs", () => {
+  test("jsonCodec round-trips frames", () => {
+    const frame = { type: "X", data: { a: [1, "b", null] } };
+    expect(jsonCodec.decode(jsonCodec.encode(frame) as string)).toEqual(frame);
+  });
+
+  test("msgpackCodec round-trips frames, including raw bytes", () => {
+    const frame = { type: "X", data: { bytes: new Uint8Array([1, 2, 3]) } };
+    const encoded = msgpackCodec.encode(frame) as Uint8Array;
+    expect(msgpackCodec.decode(toArrayBuffer(encoded))).toEqual(frame);
+  });
+});
+
+describe("Session with a binary codec", () => {
+  test("encodes outgoing frames and forces arraybuffer binaryType", async () => {
+    const session = new Session({ url: "ws://localhost", codec: msgpackCodec });
+    const cleanup = session.connect();
+    const client = (await server.connected) as unknown as WebSocket;
+    expect(client.binaryType).toBe("arraybuffer");
+
+    session.send("FOO", { a: 1 });
+    const message = (await server.nextMessage) as Uint8Array;
+    expect(decode(message)).toEqual({ type: "FOO", data: { a: 1 } });
+    cleanup();
+  });
+
+  test("decodes binary frames and still accepts JSON text frames", async () => {
+    const session = new Session({ url: "ws://localhost", codec: msgpackCodec });
+    const handler = jest.fn();
+    session.registerEvent("EVT", handler);
+    const cleanup = session.connect();
+    await server.connected;
+
+    server.send(toArrayBuffer(encode({ type: "EVT", data: { n: 1 } })) as any);
+    server.send(JSON.stringify({ type: "EVT", data: { n: 2 } }));
+    expect(handler.mock.calls).toEqual([[{ n: 1 }], [{ n: 2 }]]);
+    cleanup();
+  });
+
+  test("binary payload after _BIN_META is not decoded as a frame", async () => {
+    const session = new Session({ url: "ws://localhost", codec: msgpackCodec });
+    const handler = jest.fn();
+    session.registerEvent("FILE", handler);
+    const cleanup = session.connect();
+    await server.connected;
+
+    server.send(
+      toArrayBuffer(
+        encode({ type: "_BIN_META", data: { type: "FILE", metadata: { name: "a" } } })
+      ) as any
+    );
+    const payload = new Uint8Array([9, 9]).buffer;
+    server.send(payload as any);
+    expect(handler).toHaveBeenCalledWith({ data: payload, name: "a" });
+    cleanup();
+  });
+});
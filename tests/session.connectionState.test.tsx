@@ -0,0 +1,112 @@
+import { act, render, screen } from "@testing-library/react";
+import React from "react";
+import { ConnectionState, Session, useConnectionState } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+describe("Session connection state", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2025, 0, 1).getTime());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("walks through idle, connecting, open, reconnecting, open, closed", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 500 },
+    });
+    const states: ConnectionState[] = [];
+    session.subscribeConnectionState((s) => states.push(s));
+    expect(session.connectionState).toEqual({ status: "idle" });
+
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose();
+    jest.advanceTimersByTime(500);
+    transport.latest().open();
+    session.disconnect();
+
+    expect(states).toEqual([
+      { status: "connecting", attempt: 0 },
+      { status: "open" },
+      {
+        status: "reconnecting",
+        attempt: 1,
+        nextAttemptAt: new Date(2025, 0, 1).getTime() + 500,
+        close: { code: 1000, reason: "", wasClean: true },
+      },
+      { status: "connecting", attempt: 1 },
+      { status: "open" },
+      { status: "closed" },
+    ]);
+  });
+
+  test("ends in failed when the reconnect policy gives up", () => {
+    const transport = createFakeTransport();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay: (attempt) => (attempt > 2 ? null : 10) },
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose();
+    jest.advanceTimersByTime(10);
+    transport.latest().serverClose();
+    jest.advanceTimersByTime(10);
+    transport.latest().serverClose();
+    expect(session.connectionState).toEqual({
+      status: "failed",
+      attempts: 2,
+      close: { code: 1000, reason: "", wasClean: true },
+    });
+    warn.mockRestore();
+  });
+
+  test("supports multiple subscribers and unsubscribing", () => {
+    const transport = createFakeTransport();
+    const session = new Session({ url: "ws://x", transport: transport.factory });
+    const a = jest.fn();
+    const b = jest.fn();
+    const unsubscribeA = session.subscribeConnectionState(a);
+    session.subscribeConnectionState(b);
+    session.connect();
+    unsubscribeA();
+    transport.latest().open();
+    expect(a).toHaveBeenCalledTimes(1);
+    expect(b).toHaveBeenCalledTimes(2);
+    session.disconnect();
+  });
+
+  test("useConnectionState re-renders all observers", () => {
+    const transport = createFakeTransport();
+    const session = new Session({ url: "ws://x", transport: transport.factory });
+    function Badge({ id }: { id: string }) {
+      const state = useConnectionState(session);
+      return <span data-testid={id}>{state.status}</span>;
+    }
+    render(
+      <>
+        <Badge id="header" />
+        <Badge id="banner" />
+      </>
+    );
+    expect(screen.getByTestId("header").textContent).toBe("idle");
+
+    act(() => {
+      session.connect();
+    });
+    expect(screen.getByTestId("banner").textContent).toBe("connecting");
+    act(() => transport.latest().open());
+    expect(screen.getByTestId("header").textContent).toBe("open");
+    expect(screen.getByTestId("banner").textContent).toBe("open");
+    act(() => session.disconnect());
+    expect(screen.getByTestId("header").textContent).toBe("closed");
+  });
+});
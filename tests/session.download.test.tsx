@@ -0,0 +1,182 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { WritableStream } from "stream/web";
+import { encodeBinaryEnvelope } from "../src/binary-envelope";
+import {
+  blobSink,
+  DownloadInfo,
+  DownloadSink,
+  streamSink,
+} from "../src/download";
+import { Session, useDownloads } from "../src/session";
+import { readBlob } from "../src/utils/blob";
+import { createFakeTransport, FakeTransport } from "./utils/mocks";
+
+const setup = (downloadSink?: (info: DownloadInfo) => DownloadSink) => {
+  const transport = createFakeTransport();
+  const session = new Session({
+    url: "ws://x",
+    transport: transport.factory,
+    binaryType: "arraybuffer",
+    downloadSink,
+  });
+  session.connect();
+  transport.latest().open();
+  return { session, socket: transport.latest() };
+};
+
+const event = (socket: FakeTransport, type: string, data: unknown) =>
+  socket.receive(JSON.stringify({ type, data }));
+
+const chunk = (
+  socket: FakeTransport,
+  id: string,
+  offset: number,
+  text: string
+) =>
+  socket.receive(
+    encodeBinaryEnvelope(
+      "_DOWNLOAD_CHUNK",
+      { id, offset },
+      new TextEncoder().encode(text).buffer as ArrayBuffer
+    )
+  );
+
+describe("Session downloads", () => {
+  test("assembles chunks and reports progress", async () => {
+    const onBlob = jest.fn();
+    const { session, socket } = setup(blobSink(onBlob));
+    const sizes: number[][] = [];
+    session.subscribeDownloads(() =>
+      sizes.push(session.activeDownloads.map((d) => d.received))
+    );
+
+    event(socket, "_DOWNLOAD_START", {
+      id: "d1",
+      filename: "a.txt",
+      size: 11,
+      mimeType: "text/plain",
+    });
+    chunk(socket, "d1", 0, "hello ");
+    // legacy _BIN_META pairs work as well
+    event(socket, "_BIN_META", {
+      type: "_DOWNLOAD_CHUNK",
+      metadata: { id: "d1", offset: 6 },
+    });
+    socket.receive(new TextEncoder().encode("world").buffer);
+    expect(session.activeDownloads).toEqual([
+      {
+        id: "d1",
+        filename: "a.txt",
+        size: 11,
+        mimeType: "text/plain",
+        received: 11,
+      },
+    ]);
+    event(socket, "_DOWNLOAD_END", { id: "d1" });
+
+    expect(sizes).toEqual([[0], [6], [11], []]);
+    await waitFor(() => expect(onBlob).toHaveBeenCalled());
+    const [blob, info] = onBlob.mock.calls[0];
+    expect(info.filename).toBe("a.txt");
+    expect(blob.type).toBe("text/plain");
+    expect(new TextDecoder().decode(await readBlob(blob))).toBe("hello world");
+    session.disconnect();
+  });
+
+  test("writes chunks to a stream sink", async () => {
+    const written: string[] = [];
+    const closed = jest.fn();
+    const { session, socket } = setup(
+      streamSink(
+        () =>
+          new WritableStream<Uint8Array>({
+            write: (bytes) => {
+              written.push(new TextDecoder().decode(bytes));
+            },
+            close: closed,
+          }) as unknown as globalThis.WritableStream<Uint8Array>
+      )
+    );
+
+    event(socket, "_DOWNLOAD_START", { id: "d1", filename: "a.txt" });
+    chunk(socket, "d1", 0, "ab");
+    chunk(socket, "d1", 2, "cd");
+    event(socket, "_DOWNLOAD_END", { id: "d1" });
+
+    await waitFor(() => expect(closed).toHaveBeenCalled());
+    expect(written).toEqual(["ab", "cd"]);
+    session.disconnect();
+  });
+
+  test("cancelDownload aborts the sink and tells the server", async () => {
+    const sink = { write: jest.fn(), close: jest.fn(), abort: jest.fn() };
+    const { session, socket } = setup(() => sink);
+
+    event(socket, "_DOWNLOAD_START", { id: "d1", filename: "a.txt" });
+    chunk(socket, "d1", 0, "ab");
+    session.cancelDownload("d1");
+    chunk(socket, "d1", 2, "cd"); // still in flight, ignored
+
+    expect(JSON.parse(socket.sent[0] as string)).toEqual({
+      type: "_DOWNLOAD_CANCEL",
+      data: { id: "d1" },
+    });
+    expect(session.activeDownloads).toEqual([]);
+    await waitFor(() => expect(sink.abort).toHaveBeenCalledWith("cancelled"));
+    expect(sink.write).toHaveBeenCalledTimes(1);
+    expect(sink.close).not.toHaveBeenCalled();
+    session.disconnect();
+  });
+
+  test("fails downloads on abort, gaps and disconnect", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const sinks: Record<string, { abort: jest.Mock }> = {};
+    const { session, socket } = setup((info) => {
+      sinks[info.id] = { abort: jest.fn() };
+      return { write: () => {}, close: () => {}, ...sinks[info.id] };
+    });
+
+    event(socket, "_DOWNLOAD_START", { id: "d1", filename: "a" });
+    event(socket, "_DOWNLOAD_START", { id: "d2", filename: "b" });
+    event(socket, "_DOWNLOAD_START", { id: "d3", filename: "c" });
+    event(socket, "_DOWNLOAD_ABORT", { id: "d1", reason: "gone" });
+    chunk(socket, "d2", 5, "x");
+    socket.serverClose(1006);
+
+    await waitFor(() =>
+      expect(sinks.d3.abort).toHaveBeenCalledWith("Disconnected from Server")
+    );
+    expect(sinks.d1.abort).toHaveBeenCalledWith("gone");
+    expect(sinks.d2.abort).toHaveBeenCalledWith("expected a chunk at 0, got 5");
+    expect(session.activeDownloads).toEqual([]);
+    warn.mockRestore();
+    session.disconnect();
+  });
+
+  test("useDownloads lists active transfers", () => {
+    const { session, socket } = setup(() => ({
+      write: () => {},
+      close: () => {},
+    }));
+    const List = () => (
+      <div data-testid="list">
+        {useDownloads(session)
+          .map((d) => `${d.filename}:${d.received}/${d.size}`)
+          .join(",")}
+      </div>
+    );
+    render(<List />);
+    expect(screen.getByTestId("list").textContent).toBe("");
+
+    act(() => {
+      event(socket, "_DOWNLOAD_START", { id: "d1", filename: "a", size: 4 });
+      chunk(socket, "d1", 0, "ab");
+    });
+    expect(screen.getByTestId("list").textContent).toBe("a:2/4");
+
+    act(() => event(socket, "_DOWNLOAD_END", { id: "d1" }));
+    expect(screen.getByTestId("list").textContent).toBe("");
+    session.disconnect();
+  });
+});
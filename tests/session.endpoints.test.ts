@@ -0,0 +1,168 @@
+import { Endpoints, EndpointStrategy } from "../src/endpoints";
+import { Session, SessionOptions } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+describe("Endpoints", () => {
+  const visited = (
+    strategy: EndpointStrategy,
+    closes: boolean[] // established or not, for each close
+  ) => {
+    const endpoints = new Endpoints(["a", "b", "c"], strategy);
+    return closes.map((established) => {
+      endpoints.advance(established);
+      return endpoints.current;
+    });
+  };
+
+  test("failover goes back to the first endpoint after a lost connection", () => {
+    expect(visited("failover", [false, false, true, false, false])).toEqual([
+      "b",
+      "c",
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  test("round-robin moves on after every close", () => {
+    expect(visited("round-robin", [true, true, false, true])).toEqual([
+      "b",
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+
+  test("sticky stays on the last endpoint that connected", () => {
+    expect(visited("sticky", [false, true, true, false])).toEqual([
+      "b",
+      "b",
+      "b",
+      "c",
+    ]);
+  });
+
+  test("redirect moves to a given or the next endpoint", () => {
+    const endpoints = new Endpoints(["a", "b", "c"], "failover");
+    endpoints.redirect();
+    expect(endpoints.current).toBe("b");
+    endpoints.redirect("c");
+    expect(endpoints.current).toBe("c");
+    endpoints.redirect("z"); // not in the list
+    expect(endpoints.current).toBe("z");
+    endpoints.advance(false);
+    expect(endpoints.current).toBe("a");
+  });
+
+  test("requires at least one endpoint", () => {
+    expect(() => new Endpoints([], "failover")).toThrow();
+  });
+});
+
+describe("Session endpoints", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const setup = (options: Partial<SessionOptions> = {}) => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: ["ws://a", "ws://b"],
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 100 },
+      ...options,
+    });
+    return { session, transport };
+  };
+
+  test("fails over to the next endpoint with the reconnect policy's delay", () => {
+    const { session, transport } = setup();
+    session.connect();
+    expect(transport.latest().url).toBe("ws://a");
+
+    transport.latest().serverClose(1006); // never opened
+    expect(session.url).toBe("ws://b");
+    jest.advanceTimersByTime(99);
+    expect(transport.sockets).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(transport.latest().url).toBe("ws://b");
+
+    transport.latest().open();
+    transport.latest().serverClose(1006);
+    jest.advanceTimersByTime(100);
+    expect(transport.latest().url).toBe("ws://a"); // back to the primary
+    session.disconnect();
+  });
+
+  test("_REDIRECT reconnects to the given endpoint right away", () => {
+    const { session, transport } = setup({
+      allowRedirect: (url) => url === "ws://c",
+    });
+    const info = jest.spyOn(console, "info").mockImplementation(() => {});
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    session.connect();
+    const first = transport.latest();
+    first.open();
+
+    first.receive(
+      JSON.stringify({
+        type: "_REDIRECT",
+        data: { url: "ws://c", reason: "deploy" },
+      })
+    );
+    expect(first.close).toHaveBeenCalled();
+    expect(session.connectionState).toMatchObject({
+      status: "reconnecting",
+      attempt: 1,
+    });
+    jest.advanceTimersByTime(0);
+    expect(transport.latest().url).toBe("ws://c");
+
+    transport.latest().open();
+    transport.latest().receive(JSON.stringify({ type: "_REDIRECT" }));
+    jest.advanceTimersByTime(0);
+    expect(transport.latest().url).toBe("ws://b"); // the next one in the list
+    session.disconnect();
+    info.mockRestore();
+    warn.mockRestore();
+  });
+
+  test("_REDIRECT ignores urls that are not configured endpoints", () => {
+    const { session, transport } = setup();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    session.connect();
+    const first = transport.latest();
+    first.open();
+
+    first.receive(
+      JSON.stringify({ type: "_REDIRECT", data: { url: "wss://evil.example" } })
+    );
+    jest.advanceTimersByTime(0);
+    expect(first.close).not.toHaveBeenCalled();
+    expect(session.url).toBe("ws://a");
+    expect(transport.sockets).toHaveLength(1);
+    expect(warn).toHaveBeenCalledWith(
+      "[session] Ignoring _REDIRECT to wss://evil.example, not a configured endpoint"
+    );
+    session.disconnect();
+    warn.mockRestore();
+  });
+
+  test("a single url keeps working as before", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 10 },
+    });
+    session.connect();
+    transport.latest().serverClose(1006);
+    jest.advanceTimersByTime(10);
+    expect(transport.sockets.map((s) => s.url)).toEqual(["ws://x", "ws://x"]);
+    session.disconnect();
+  });
+});
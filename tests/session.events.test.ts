@@ -0,0 +1,116 @@
+import WS from "jest-websocket-mock";
+import { Session } from "../src/session";
+
+let server: WS;
+
+beforeEach(() => {
+  server = new WS("ws://localhost");
+});
+
+afterEach(() => {
+  WS.clean();
+});
+
+async function connected(session: Session) {
+  const cleanup = session.connect();
+  await server.connected;
+  return cleanup;
+}
+
+describe("Session multi-subscriber events", () => {
+  test("on() listeners coexist with the exclusive handler, in order", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const calls: string[] = [];
+    session.registerEvent("_TOAST", () => calls.push("exclusive"));
+    session.on("_TOAST", () => calls.push("first"));
+    session.on("_TOAST", () => calls.push("second"));
+    const cleanup = await connected(session);
+
+    server.send(JSON.stringify({ type: "_TOAST", data: { message: "hi" } }));
+    expect(calls).toEqual(["exclusive", "first", "second"]);
+    cleanup();
+  });
+
+  test("listeners receive the event without an exclusive handler", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const a = jest.fn();
+    const b = jest.fn();
+    session.on("CUSTOM", a);
+    session.on("CUSTOM", b);
+    const cleanup = await connected(session);
+
+    server.send(JSON.stringify({ type: "CUSTOM", data: 1 }));
+    expect(a).toHaveBeenCalledWith(1);
+    expect(b).toHaveBeenCalledWith(1);
+    cleanup();
+  });
+
+  test("unsubscribe function and off() remove listeners", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const a = jest.fn();
+    const b = jest.fn();
+    const unsubscribe = session.on("EVT", a);
+    session.on("EVT", b);
+    unsubscribe();
+    session.off("EVT", b);
+    session.off("EVT", b); // no-op when not subscribed
+    const cleanup = await connected(session);
+
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    server.send(JSON.stringify({ type: "EVT", data: null }));
+    expect(a).not.toHaveBeenCalled();
+    expect(b).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+    cleanup();
+  });
+
+  test("once() fires a single time", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const listener = jest.fn();
+    session.once("EVT", listener);
+    session.on("EVT", () => {});
+    const cleanup = await connected(session);
+
+    server.send(JSON.stringify({ type: "EVT", data: 1 }));
+    server.send(JSON.stringify({ type: "EVT", data: 2 }));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+    cleanup();
+  });
+
+  test("a throwing listener does not prevent the others", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const after = jest.fn();
+    session.registerEvent("EVT", () => {
+      throw new Error("exclusive");
+    });
+    session.on("EVT", () => {
+      throw new Error("listener");
+    });
+    session.on("EVT", after);
+    const cleanup = await connected(session);
+
+    server.send(JSON.stringify({ type: "EVT", data: "x" }));
+    expect(after).toHaveBeenCalledWith("x");
+    expect(error).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+    cleanup();
+  });
+
+  test("binary events paired with _BIN_META reach listeners", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const listener = jest.fn();
+    session.on("BIN", listener);
+    const cleanup = await connected(session);
+
+    server.send(
+      JSON.stringify({ type: "_BIN_META", data: { type: "BIN", metadata: { a: 1 } } })
+    );
+    const payload = new Uint8Array([1]).buffer;
+    server.send(payload as any);
+    expect(listener).toHaveBeenCalledWith({ data: payload, a: 1 });
+    cleanup();
+  });
+});
@@ -0,0 +1,87 @@
+import { act, render, screen, waitFor } from "@testing-library/react";
+import WS from "jest-websocket-mock";
+import React from "react";
+import { Session, useRoundTripTime } from "../src/session";
+
+let server: WS;
+
+beforeEach(() => {
+  server = new WS("ws://localhost", { jsonProtocol: true });
+});
+
+afterEach(() => {
+  WS.clean();
+});
+
+describe("Session heartbeat", () => {
+  test("pings periodically and measures the round-trip time", async () => {
+    const session = new Session({
+      url: "ws://localhost",
+      heartbeat: { interval: 20, timeout: 1000 },
+    });
+    expect(session.rtt).toBe(null);
+    const cleanup = session.connect();
+    await server.connected;
+
+    const ping = (await server.nextMessage) as any;
+    expect(ping.type).toBe("_PING");
+    server.send({ type: "_PONG", data: ping.data });
+    expect(session.rtt).not.toBe(null);
+    expect(session.rtt).toBeGreaterThanOrEqual(0);
+    cleanup();
+  });
+
+  test("drops a connection that stops answering and reconnects", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const session = new Session({
+      url: "ws://localhost",
+      minRetryInterval: 10,
+      heartbeat: { interval: 10, timeout: 20 },
+    });
+    const cb = jest.fn();
+    session.onConnectionChange = cb;
+    const cleanup = session.connect();
+    await server.connected;
+    expect(session.isConnected).toBe(true);
+
+    // never answer the ping: dropped, then reconnected
+    await waitFor(() => expect(cb.mock.calls.length).toBeGreaterThanOrEqual(3));
+    expect(cb.mock.calls.slice(0, 3).map((c) => c[0])).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    warn.mockRestore();
+    cleanup();
+  });
+
+  test("answers server-initiated pings with a pong", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const cleanup = session.connect();
+    await server.connected;
+
+    server.send({ type: "_PING", data: { seq: 7 } });
+    await expect(server).toReceiveMessage({ type: "_PONG", data: { seq: 7 } });
+    cleanup();
+  });
+
+  test("useRoundTripTime re-renders with new measurements", async () => {
+    const session = new Session({
+      url: "ws://localhost",
+      heartbeat: { interval: 20, timeout: 1000 },
+    });
+    function Rtt() {
+      const rtt = useRoundTripTime(session);
+      return <div data-testid="rtt">{rtt === null ? "none" : "measured"}</div>;
+    }
+    render(<Rtt />);
+    expect(screen.getByTestId("rtt").textContent).toBe("none");
+
+    const cleanup = session.connect();
+    await server.connected;
+    const ping = (await server.nextMessage) as any;
+    act(() => server.send({ type: "_PONG", data: ping.data }));
+    expect(screen.getByTestId("rtt").textContent).toBe("measured");
+    cleanup();
+  });
+});
@@ -0,0 +1,126 @@
+import { waitFor } from "@testing-library/dom";
+import WS from "jest-websocket-mock";
+import { Session } from "../src/session";
+import { Sync, setEvent } from "../src/sync";
+
+let server: WS;
+
+beforeEach(() => {
+  server = new WS("ws://localhost");
+});
+
+afterEach(() => {
+  WS.clean();
+});
+
+describe("Session init handlers", () => {
+  test("run after open, in registration order, awaiting async handlers", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const calls: string[] = [];
+    session.registerInit("a", async () => {
+      await new Promise((r) => setTimeout(r, 10));
+      calls.push("a");
+    });
+    session.registerInit("b", () => {
+      calls.push("b");
+    });
+
+    const cleanup = session.connect();
+    await server.connected;
+    await waitFor(() => expect(calls).toEqual(["a", "b"]));
+    cleanup();
+  });
+
+  test("run again after an automatic reconnect", async () => {
+    const session = new Session({ url: "ws://localhost", minRetryInterval: 10 });
+    const init = jest.fn();
+    session.registerInit("key", init);
+
+    const cleanup = session.connect();
+    await server.connected;
+    expect(init).toHaveBeenCalledTimes(1);
+
+    server.close();
+    WS.clean();
+    server = new WS("ws://localhost");
+    await server.connected;
+    expect(init).toHaveBeenCalledTimes(2);
+    cleanup();
+  });
+
+  test("failures are reported and do not stop later handlers or the socket", async () => {
+    const onInitError = jest.fn();
+    const session = new Session({ url: "ws://localhost", onInitError });
+    const err = new Error("boom");
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    session.registerInit("bad", () => Promise.reject(err));
+    const after = jest.fn();
+    session.registerInit("good", after);
+
+    const cleanup = session.connect();
+    await server.connected;
+    await waitFor(() => expect(after).toHaveBeenCalled());
+    expect(onInitError).toHaveBeenCalledWith("bad", err);
+    expect(session.isConnected).toBe(true);
+    errorSpy.mockRestore();
+    cleanup();
+  });
+
+  test("a throwing onInitError is logged, not rethrown", async () => {
+    const onInitError = jest.fn(() => {
+      throw new Error("callback");
+    });
+    const session = new Session({ url: "ws://localhost", onInitError });
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    session.registerInit("bad", () => {
+      throw new Error("boom");
+    });
+    const after = jest.fn();
+    session.registerInit("good", after);
+
+    const cleanup = session.connect();
+    await server.connected;
+    await waitFor(() => expect(after).toHaveBeenCalled());
+    expect(errorSpy).toHaveBeenCalledWith(
+      "[session] onInitError for key=bad threw:",
+      expect.any(Error)
+    );
+    errorSpy.mockRestore();
+    cleanup();
+  });
+
+  test("stops the pipeline when the connection drops mid-way", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    let release!: () => void;
+    session.registerInit("slow", () => new Promise<void>((r) => (release = r)));
+    const later = jest.fn();
+    session.registerInit("later", later);
+
+    const cleanup = session.connect();
+    await server.connected;
+    session.disconnect();
+    release();
+    await new Promise((r) => setTimeout(r, 0));
+    expect(later).not.toHaveBeenCalled();
+    cleanup();
+  });
+
+  test("sendOnInit sends the full state on connect", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const sync = new Sync("S", session, true);
+    const cleanup = sync.registerHandlers(
+      () => ({ value: 7 }),
+      () => {},
+      () => {},
+      () => {}
+    );
+
+    const disconnect = session.connect();
+    await server.connected;
+    await expect(server).toReceiveMessage(
+      JSON.stringify({ type: setEvent("S"), data: { value: 7 } })
+    );
+    disconnect();
+    cleanup();
+  });
+});
@@ -0,0 +1,143 @@
+import { Frame } from "../src/codec";
+import { Session } from "../src/session";
+import { createFakeTransport } from "./utils/mocks";
+
+const setup = () => {
+  const transport = createFakeTransport();
+  const session = new Session({
+    url: "ws://x",
+    transport: transport.factory,
+    binaryType: "arraybuffer",
+  });
+  session.connect();
+  transport.latest().open();
+  return { session, socket: transport.latest() };
+};
+
+describe("Session middleware", () => {
+  test("outbound middleware can observe, transform and drop frames", () => {
+    const { session, socket } = setup();
+    const seen: string[] = [];
+    session.use({
+      outbound: (frame, next) => {
+        seen.push(frame.type);
+        if (frame.type === "SECRET") return; // dropped
+        next({ ...frame, data: { wrapped: frame.data } });
+      },
+    });
+
+    session.send("A", 1);
+    session.send("SECRET", "pw");
+    expect(seen).toEqual(["A", "SECRET"]);
+    expect(socket.sent.map((m) => JSON.parse(m as string))).toEqual([
+      { type: "A", data: { wrapped: 1 } },
+    ]);
+    session.disconnect();
+  });
+
+  test("async middleware can delay frames", async () => {
+    const { session, socket } = setup();
+    let release: () => void = () => {};
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    session.use({
+      outbound: async (frame, next) => {
+        await gate;
+        next(frame);
+      },
+    });
+
+    session.send("A", 1);
+    expect(socket.sent).toHaveLength(0);
+    release();
+    await gate;
+    expect(socket.sent).toHaveLength(1);
+    session.disconnect();
+  });
+
+  test("inbound middleware runs in reverse order", () => {
+    const { session, socket } = setup();
+    const tag =
+      (name: string) => (frame: Frame, next: (frame: Frame) => void) =>
+        next({ ...frame, data: `${name}(${frame.data})` });
+    const unwrap =
+      (name: string) => (frame: Frame, next: (frame: Frame) => void) =>
+        next({
+          ...frame,
+          data: (frame.data as string).replace(
+            new RegExp(`^${name}\\((.*)\\)$`),
+            "$1"
+          ),
+        });
+    session.use({ outbound: tag("compress"), inbound: unwrap("compress") });
+    session.use({ outbound: tag("encrypt"), inbound: unwrap("encrypt") });
+    const listener = jest.fn();
+    session.on("ECHO", listener);
+
+    session.send("ECHO", "x");
+    expect(JSON.parse(socket.sent[0] as string).data).toBe(
+      "encrypt(compress(x))"
+    );
+    socket.receive(socket.sent[0]);
+    expect(listener).toHaveBeenCalledWith("x");
+    session.disconnect();
+  });
+
+  test("binary events pass as a single frame with a binary payload", () => {
+    const { session, socket } = setup();
+    const outbound: Frame[] = [];
+    const inbound: Frame[] = [];
+    session.use({
+      outbound: (frame, next) => {
+        outbound.push(frame);
+        next(frame);
+      },
+      inbound: (frame, next) => {
+        inbound.push(frame);
+        next(frame);
+      },
+    });
+    const listener = jest.fn();
+    session.on("BIN", listener);
+    const payload = new Uint8Array([1, 2]).buffer;
+
+    session.sendBinary("BIN", { a: 1 }, payload);
+    expect(outbound).toEqual([
+      { type: "BIN", data: { a: 1 }, binary: payload },
+    ]);
+    expect(socket.sent).toHaveLength(2); // still framed as a _BIN_META pair
+
+    socket.receive(socket.sent[0]);
+    socket.receive(socket.sent[1]);
+    expect(inbound).toEqual([{ type: "BIN", data: { a: 1 }, binary: payload }]);
+    expect(listener).toHaveBeenCalledWith({ data: payload, a: 1 });
+    session.disconnect();
+  });
+
+  test("a throwing middleware drops the frame", async () => {
+    const { session, socket } = setup();
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const remove = session.use({
+      outbound: (frame) => {
+        throw new Error(`no ${frame.type}`);
+      },
+      inbound: async () => {
+        throw new Error("nope");
+      },
+    });
+    const listener = jest.fn();
+    session.on("IN", listener);
+
+    session.send("OUT", 1);
+    socket.receive(JSON.stringify({ type: "IN", data: 1 }));
+    await Promise.resolve();
+    expect(socket.sent).toHaveLength(0);
+    expect(listener).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(2);
+
+    remove();
+    session.send("OUT", 1);
+    expect(socket.sent).toHaveLength(1);
+    error.mockRestore();
+    session.disconnect();
+  });
+});
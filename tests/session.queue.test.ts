@@ -0,0 +1,125 @@
+import WS from "jest-websocket-mock";
+import { OutboundQueue } from "../src/outbound-queue";
+import { Session } from "../src/session";
+import { createToastMock } from "./utils/mocks";
+
+let server: WS;
+
+beforeEach(() => {
+  server = new WS("ws://localhost");
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  WS.clean();
+});
+
+describe("OutboundQueue", () => {
+  test("drop-oldest evicts the oldest message when full", () => {
+    const queue = new OutboundQueue({ maxSize: 2 });
+    queue.enqueue({ kind: "event", event: "A", data: 1 });
+    queue.enqueue({ kind: "event", event: "B", data: 2 });
+    const dropped = queue.enqueue({ kind: "event", event: "C", data: 3 });
+    expect(dropped.map((m) => m.event)).toEqual(["A"]);
+    expect(queue.peek().map((m) => m.event)).toEqual(["B", "C"]);
+  });
+
+  test("drop-newest rejects the incoming message when full", () => {
+    const queue = new OutboundQueue({ maxSize: 1, dropPolicy: "drop-newest" });
+    queue.enqueue({ kind: "event", event: "A", data: 1 });
+    const dropped = queue.enqueue({ kind: "event", event: "B", data: 2 });
+    expect(dropped.map((m) => m.event)).toEqual(["B"]);
+    expect(queue.peek().map((m) => m.event)).toEqual(["A"]);
+  });
+
+  test("messages older than maxAge expire", () => {
+    jest.useFakeTimers();
+    const queue = new OutboundQueue({ maxAge: 100 });
+    queue.enqueue({ kind: "event", event: "OLD", data: null });
+    jest.advanceTimersByTime(60);
+    queue.enqueue({ kind: "event", event: "NEW", data: null });
+    jest.advanceTimersByTime(60);
+    expect(queue.drain().map((m) => m.event)).toEqual(["NEW"]);
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe("Session outbound queue", () => {
+  test("without outboundQueue, messages sent while disconnected are dropped", () => {
+    const toast = createToastMock();
+    const session = new Session({ url: "ws://localhost", toast });
+    session.send("FOO", { a: 1 });
+    expect(toast.error).toHaveBeenCalled();
+    expect(session.getQueuedMessages()).toEqual([]);
+  });
+
+  test("buffers while disconnected and flushes in order on open", async () => {
+    const toast = createToastMock();
+    const session = new Session({
+      url: "ws://localhost",
+      toast,
+      outboundQueue: true,
+    });
+    session.send("FIRST", { n: 1 });
+    const buf = new Uint8Array([1, 2]).buffer;
+    session.sendBinary("BIN", { m: 1 }, buf);
+    session.send("LAST", { n: 2 });
+    expect(toast.error).not.toHaveBeenCalled();
+    expect(session.getQueuedMessages().map((m) => m.event)).toEqual([
+      "FIRST",
+      "BIN",
+      "LAST",
+    ]);
+
+    const cleanup = session.connect();
+    await server.connected;
+
+    await expect(server).toReceiveMessage(
+      JSON.stringify({ type: "FIRST", data: { n: 1 } })
+    );
+    await expect(server).toReceiveMessage(
+      JSON.stringify({ type: "_BIN_META", data: { type: "BIN", metadata: { m: 1 } } })
+    );
+    expect(await server.nextMessage).toBe(buf);
+    await expect(server).toReceiveMessage(
+      JSON.stringify({ type: "LAST", data: { n: 2 } })
+    );
+    expect(session.getQueuedMessages()).toEqual([]);
+    cleanup();
+  });
+
+  test("buffers across a reconnect window", async () => {
+    const session = new Session({
+      url: "ws://localhost",
+      minRetryInterval: 10,
+      outboundQueue: { maxSize: 10 },
+    });
+    const cleanup = session.connect();
+    await server.connected;
+    server.close();
+
+    session.send("DURING_OUTAGE", 42);
+    expect(session.getQueuedMessages()).toHaveLength(1);
+
+    WS.clean();
+    server = new WS("ws://localhost");
+    await server.connected;
+    await expect(server).toReceiveMessage(
+      JSON.stringify({ type: "DURING_OUTAGE", data: 42 })
+    );
+    cleanup();
+  });
+
+  test("clearQueue discards buffered messages", async () => {
+    const session = new Session({ url: "ws://localhost", outboundQueue: true });
+    session.send("A", 1);
+    session.send("B", 2);
+    expect(session.clearQueue()).toBe(2);
+
+    const cleanup = session.connect();
+    await server.connected;
+    session.send("C", 3);
+    await expect(server).toReceiveMessage(JSON.stringify({ type: "C", data: 3 }));
+    cleanup();
+  });
+});
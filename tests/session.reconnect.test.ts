@@ -0,0 +1,203 @@
+import { exponentialBackoff } from "../src/reconnect";
+import { Session } from "../src/session";
+import { createFakeTransport, createToastMock } from "./utils/mocks";
+
+describe("exponentialBackoff", () => {
+  test("grows by factor up to maxDelay", () => {
+    const policy = exponentialBackoff({ minDelay: 100, maxDelay: 500 });
+    expect([1, 2, 3, 4].map((a) => policy.nextDelay(a))).toEqual([
+      100, 200, 400, 500,
+    ]);
+  });
+
+  test("gives up after maxAttempts", () => {
+    const policy = exponentialBackoff({ maxAttempts: 2 });
+    expect(policy.nextDelay(2)).not.toBe(null);
+    expect(policy.nextDelay(3)).toBe(null);
+  });
+
+  test("full jitter picks between 0 and the computed delay", () => {
+    const random = jest.spyOn(Math, "random").mockReturnValue(0.5);
+    const policy = exponentialBackoff({ minDelay: 100, jitter: "full" });
+    expect(policy.nextDelay(2)).toBe(100);
+    random.mockRestore();
+  });
+
+  test("equal jitter keeps at least half of the computed delay", () => {
+    const random = jest.spyOn(Math, "random").mockReturnValue(0);
+    const policy = exponentialBackoff({ minDelay: 100, jitter: "equal" });
+    expect(policy.nextDelay(2)).toBe(100);
+    random.mockReturnValue(0.5);
+    expect(policy.nextDelay(2)).toBe(150);
+    random.mockRestore();
+  });
+});
+
+describe("Session reconnect policy", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("the default policy jitters the delay", () => {
+    const random = jest.spyOn(Math, "random").mockReturnValue(0.5);
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      minRetryInterval: 1000,
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose(1006);
+
+    const state = session.connectionState;
+    expect(state.status).toBe("reconnecting");
+    if (state.status === "reconnecting") {
+      expect(state.nextAttemptAt - Date.now()).toBe(750);
+    }
+    random.mockRestore();
+    session.disconnect();
+  });
+
+  test("uses the configured policy with increasing attempt numbers", () => {
+    const transport = createFakeTransport();
+    const nextDelay = jest.fn(() => 100);
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay },
+    });
+    session.connect();
+    transport.latest().open();
+
+    transport.latest().serverClose();
+    expect(nextDelay).toHaveBeenLastCalledWith(1);
+    jest.advanceTimersByTime(100);
+    expect(transport.sockets).toHaveLength(2);
+
+    transport.latest().serverClose(); // failed attempt
+    expect(nextDelay).toHaveBeenLastCalledWith(2);
+    jest.advanceTimersByTime(100);
+    transport.latest().open(); // success resets the attempt counter
+
+    transport.latest().serverClose();
+    expect(nextDelay).toHaveBeenLastCalledWith(1);
+    session.disconnect();
+  });
+
+  test("gives up when the policy returns null", () => {
+    const transport = createFakeTransport();
+    const toast = createToastMock();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const session = new Session({
+      url: "ws://x",
+      toast,
+      transport: transport.factory,
+      reconnect: exponentialBackoff({ minDelay: 10, maxAttempts: 1 }),
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose();
+    jest.advanceTimersByTime(10);
+    transport.latest().serverClose();
+    expect(toast.error).toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100000);
+    expect(transport.sockets).toHaveLength(2);
+    warn.mockRestore();
+    session.disconnect();
+  });
+
+  test("connectTimeout drops an attempt that never opens and retries", () => {
+    const transport = createFakeTransport();
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      connectTimeout: 1000,
+      reconnect: { nextDelay: () => 50 },
+    });
+    session.connect();
+    jest.advanceTimersByTime(999);
+    expect(transport.latest().close).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(transport.sockets[0].close).toHaveBeenCalled();
+
+    jest.advanceTimersByTime(50);
+    expect(transport.sockets).toHaveLength(2);
+    transport.latest().open();
+    jest.advanceTimersByTime(5000);
+    expect(session.isConnected).toBe(true);
+    warn.mockRestore();
+    session.disconnect();
+  });
+
+  test("retries immediately when the browser comes back online", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 60000 },
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose();
+    expect(transport.sockets).toHaveLength(1);
+
+    window.dispatchEvent(new Event("online"));
+    expect(transport.sockets).toHaveLength(2);
+
+    // the scheduled retry was cancelled
+    transport.latest().open();
+    jest.advanceTimersByTime(60000);
+    expect(transport.sockets).toHaveLength(2);
+    session.disconnect();
+  });
+
+  test("deferWhileHidden holds retries until the tab is visible", () => {
+    const transport = createFakeTransport();
+    let visibility = "hidden";
+    const spy = jest
+      .spyOn(document, "visibilityState", "get")
+      .mockImplementation(() => visibility as DocumentVisibilityState);
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      deferWhileHidden: true,
+      reconnect: { nextDelay: () => 100 },
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose();
+
+    jest.advanceTimersByTime(1000);
+    expect(transport.sockets).toHaveLength(1);
+
+    visibility = "visible";
+    document.dispatchEvent(new Event("visibilitychange"));
+    expect(transport.sockets).toHaveLength(2);
+    spy.mockRestore();
+    session.disconnect();
+  });
+
+  test("disconnect removes the retry listeners", () => {
+    const transport = createFakeTransport();
+    const session = new Session({
+      url: "ws://x",
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 100 },
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose();
+    session.disconnect();
+
+    window.dispatchEvent(new Event("online"));
+    jest.advanceTimersByTime(1000);
+    expect(transport.sockets).toHaveLength(1);
+  });
+});
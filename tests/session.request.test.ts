@@ -0,0 +1,147 @@
+import WS from "jest-websocket-mock";
+import { RequestError } from "../src/request";
+import { Session } from "../src/session";
+
+let server: WS;
+
+beforeEach(() => {
+  server = new WS("ws://localhost");
+});
+
+afterEach(() => {
+  WS.clean();
+});
+
+async function connected(session: Session) {
+  const cleanup = session.connect();
+  await server.connected;
+  return cleanup;
+}
+
+async function nextRequest() {
+  return JSON.parse((await server.nextMessage) as string) as {
+    type: string;
+    data: unknown;
+    id: string;
+  };
+}
+
+describe("Session.request", () => {
+  test("resolves with the data of the matching _RESPONSE", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const cleanup = await connected(session);
+
+    const first = session.request<number>("ADD", { a: 1, b: 2 });
+    const second = session.request<string>("ECHO", "hi");
+    const req1 = await nextRequest();
+    const req2 = await nextRequest();
+    expect(req1).toMatchObject({ type: "ADD", data: { a: 1, b: 2 } });
+    expect(req1.id).not.toBe(req2.id);
+
+    // reply out of order
+    server.send(JSON.stringify({ type: "_RESPONSE", id: req2.id, data: "hi" }));
+    server.send(JSON.stringify({ type: "_RESPONSE", id: req1.id, data: 3 }));
+    await expect(first).resolves.toBe(3);
+    await expect(second).resolves.toBe("hi");
+    cleanup();
+  });
+
+  test("rejects with the server error", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const cleanup = await connected(session);
+
+    const pending = session.request("FAIL", null);
+    const req = await nextRequest();
+    server.send(
+      JSON.stringify({ type: "_RESPONSE", id: req.id, error: { message: "nope" } })
+    );
+    await expect(pending).rejects.toMatchObject({
+      reason: "remote",
+      message: "nope",
+      details: { message: "nope" },
+    });
+    cleanup();
+  });
+
+  test("rejects on timeout", async () => {
+    const session = new Session({ url: "ws://localhost", requestTimeout: 20 });
+    const cleanup = await connected(session);
+
+    const pending = session.request("SLOW", null);
+    await expect(pending).rejects.toBeInstanceOf(RequestError);
+    await expect(pending).rejects.toMatchObject({ reason: "timeout", event: "SLOW" });
+    cleanup();
+  });
+
+  test("rejects when aborted", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const cleanup = await connected(session);
+
+    const controller = new AbortController();
+    const pending = session.request("LONG", null, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ reason: "aborted" });
+    cleanup();
+  });
+
+  test("rejects pending requests on disconnect", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const cleanup = await connected(session);
+
+    const pending = session.request("X", null);
+    server.close();
+    await expect(pending).rejects.toMatchObject({ reason: "disconnected" });
+    cleanup();
+  });
+
+  test("rejects immediately while not connected", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    await expect(session.request("X", null)).rejects.toMatchObject({
+      reason: "disconnected",
+    });
+  });
+});
+
+describe("Session.onRequest", () => {
+  test("answers the server's requests with a _RESPONSE", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    session.onRequest("ADD", ({ a, b }: { a: number; b: number }) => a + b);
+    session.onRequest("FAIL", async () => {
+      throw new Error("not now");
+    });
+    await connected(session);
+
+    server.send(
+      JSON.stringify({ type: "ADD", id: "r1", data: { a: 1, b: 2 } })
+    );
+    expect(await nextRequest()).toEqual({
+      type: "_RESPONSE",
+      id: "r1",
+      data: 3,
+    });
+    server.send(JSON.stringify({ type: "FAIL", id: "r2" }));
+    expect(await nextRequest()).toEqual({
+      type: "_RESPONSE",
+      id: "r2",
+      error: "not now",
+    });
+  });
+
+  test("frames without an id go to the event handlers", async () => {
+    const session = new Session({ url: "ws://localhost" });
+    const request = jest.fn();
+    const event = jest.fn();
+    const remove = session.onRequest("X", request);
+    session.registerEvent("X", event);
+    await connected(session);
+
+    server.send(JSON.stringify({ type: "X", data: 1 }));
+    expect(event).toHaveBeenCalledWith(1);
+    expect(request).not.toHaveBeenCalled();
+
+    expect(() => session.onRequest("X", request)).toThrow();
+    remove();
+    server.send(JSON.stringify({ type: "X", id: "r3", data: 2 }));
+    expect(event).toHaveBeenCalledWith(2);
+  });
+});
@@ -0,0 +1,103 @@
+import { DownloadSinkFactory } from "../src/download";
+import { Session, SessionOptions } from "../src/session";
+import { createFakeTransport, createToastMock } from "./utils/mocks";
+
+const connected = (options: Partial<SessionOptions>) => {
+  const transport = createFakeTransport();
+  const toast = createToastMock();
+  const session = new Session({
+    url: "ws://x",
+    toast,
+    transport: transport.factory,
+    ...options,
+  });
+  session.connect();
+  const socket = transport.latest();
+  socket.open();
+  const receive = (type: string, data: unknown) =>
+    socket.receive(JSON.stringify({ type, data }));
+  return { session, toast, receive };
+};
+
+describe("systemHandlers", () => {
+  test("a _DISCONNECT handler replaces the built-in one", () => {
+    const maintenance = jest.fn();
+    const { session, toast, receive } = connected({
+      systemHandlers: { _DISCONNECT: maintenance },
+    });
+    receive("_DISCONNECT", "Back at 10:00");
+
+    expect(maintenance).toHaveBeenCalledWith(
+      "Back at 10:00",
+      expect.any(Function)
+    );
+    expect(session.isConnected).toBe(true);
+    expect(toast.loading).not.toHaveBeenCalled();
+    session.disconnect();
+  });
+
+  test("next() runs the built-in handling", () => {
+    const calls: string[] = [];
+    const { session, toast, receive } = connected({
+      systemHandlers: {
+        _DISCONNECT: (message, next) => {
+          calls.push(message);
+          next();
+        },
+      },
+    });
+    receive("_DISCONNECT", "Maintenance");
+
+    expect(calls).toEqual(["Maintenance"]);
+    expect(session.isConnected).toBe(false);
+    expect(toast.loading.mock.calls[0][0]).toBe("Server: Maintenance");
+  });
+
+  test("_DOWNLOAD can go to the app instead of the download sink", () => {
+    const sink: DownloadSinkFactory = jest.fn();
+    const files: string[] = [];
+    const { session, receive } = connected({
+      downloadSink: sink,
+      systemHandlers: { _DOWNLOAD: ({ filename }) => files.push(filename) },
+    });
+    receive("_DOWNLOAD", { filename: "a.txt", data: "aGk=" });
+
+    expect(files).toEqual(["a.txt"]);
+    expect(sink).not.toHaveBeenCalled();
+    session.disconnect();
+  });
+
+  test("_TOAST reaches the event handlers unless replaced", () => {
+    const shown: unknown[] = [];
+    const { session, receive } = connected({});
+    session.on("_TOAST", (t) => shown.push(t));
+    receive("_TOAST", { message: "a" });
+
+    session.systemHandlers = {
+      _TOAST: (t, next) => {
+        if (t.type !== "error") next();
+      },
+    };
+    receive("_TOAST", { message: "b", type: "error" });
+    receive("_TOAST", { message: "c" });
+
+    expect(shown).toEqual([{ message: "a" }, { message: "c" }]);
+    session.disconnect();
+  });
+
+  test("a throwing handler does not break the session", () => {
+    const { session, receive } = connected({
+      systemHandlers: {
+        _TOAST: () => {
+          throw new Error("boom");
+        },
+      },
+    });
+    const other = jest.fn();
+    session.on("X", other);
+    receive("_TOAST", { message: "a" });
+    receive("X", 1);
+    expect(other).toHaveBeenCalledWith(1);
+    session.disconnect();
+  });
+});
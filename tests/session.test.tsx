@@ -1,6 +1,7 @@
 import { waitFor } from "@testing-library/dom";
 import WS from "jest-websocket-mock";
 import { Session } from "../src/session";
+import { readBlob } from "../src/utils/blob";
 import { createToastMock } from "./utils/mocks";
 
 // Mock js-file-download
@@ -374,19 +375,12 @@ describe("Session message routing", () => {
     cleanup?.();
   });
 
-  test("handles _DOWNLOAD by fetching data uri and invoking file download", async () => {
+  test("handles _DOWNLOAD by decoding the base64 payload and invoking file download", async () => {
     const toast = createToastMock();
     const session = new Session({ url: "ws://localhost", label: "Srv", toast });
     const cleanup = session.connect();
     await server.connected;
 
-    // Mock global fetch -> returns Response-like with blob()
-    const blob = new Blob(["hello"]);
-    const fetchMock = jest.fn().mockResolvedValue({
-      blob: () => Promise.resolve(blob),
-    } as any);
-    (global as any).fetch = fetchMock;
-
     server.send(
       JSON.stringify({
         type: "_DOWNLOAD",
@@ -397,13 +391,17 @@ describe("Session message routing", () => {
     // Wait until fileDownload is called
     await waitFor(
       () => {
-        expect(fetchMock).toHaveBeenCalled();
-        expect(fileDownloadMock).toHaveBeenCalledWith(blob, "a.bin");
+        expect(fileDownloadMock).toHaveBeenCalledWith(
+          expect.any(Blob),
+          "a.bin",
+          undefined
+        );
       },
       { timeout: 1000 }
     );
+    const blob: Blob = fileDownloadMock.mock.calls[0][0];
+    expect(new TextDecoder().decode(await readBlob(blob))).toBe("hello");
 
     cleanup?.();
-    (global as any).fetch = undefined;
   });
 });
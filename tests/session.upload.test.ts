@@ -0,0 +1,225 @@
+import { ReadableStream } from "stream/web";
+import { decodeBinaryEnvelope } from "../src/binary-envelope";
+import { RequestError } from "../src/request";
+import { Session } from "../src/session";
+import { UploadStatus } from "../src/upload";
+import { createFakeTransport, FakeTransport } from "./utils/mocks";
+
+// answers _UPLOAD_START / _UPLOAD_END and collects the received chunks
+const serveUploads = (
+  socket: FakeTransport,
+  { offset = 0, answerEnd = true } = {}
+) => {
+  const chunks: { offset: number; bytes: number[] }[] = [];
+  const events: string[] = [];
+  socket.send = (message: unknown) => {
+    socket.sent.push(message);
+    if (typeof message !== "string") {
+      const envelope = decodeBinaryEnvelope(message as ArrayBuffer)!;
+      const { offset } = envelope.metadata as { offset: number };
+      chunks.push({ offset, bytes: Array.from(new Uint8Array(envelope.data)) });
+      return;
+    }
+    const frame = JSON.parse(message);
+    events.push(frame.type);
+    if (frame.type === "_UPLOAD_START") {
+      socket.receive(
+        JSON.stringify({ type: "_RESPONSE", id: frame.id, data: { offset } })
+      );
+    } else if (frame.type === "_UPLOAD_END" && answerEnd) {
+      socket.receive(
+        JSON.stringify({
+          type: "_RESPONSE",
+          id: frame.id,
+          data: { size: frame.data.size },
+        })
+      );
+    }
+  };
+  return { chunks, events };
+};
+
+const setup = () => {
+  const transport = createFakeTransport();
+  const session = new Session({
+    url: "ws://x",
+    transport: transport.factory,
+    binaryFraming: "envelope",
+    reconnect: { nextDelay: () => 0 },
+  });
+  session.connect();
+  transport.latest().open();
+  return { transport, session };
+};
+
+const bytes = (n: number) =>
+  new Uint8Array(Array.from({ length: n }, (_, i) => i));
+
+describe("Session.upload", () => {
+  test("sends the source in chunks and resolves with the server's reply", async () => {
+    const { transport, session } = setup();
+    const server = serveUploads(transport.latest());
+
+    const upload = session.upload(
+      "_ACTION:files",
+      { type: "SAVE" },
+      bytes(10),
+      {
+        chunkSize: 4,
+      }
+    );
+    const progress: number[] = [];
+    upload.subscribe(() => progress.push(upload.progress.sent));
+
+    await expect(upload.done).resolves.toEqual({ size: 10 });
+    expect(server.chunks).toEqual([
+      { offset: 0, bytes: [0, 1, 2, 3] },
+      { offset: 4, bytes: [4, 5, 6, 7] },
+      { offset: 8, bytes: [8, 9] },
+    ]);
+    expect(server.events).toEqual(["_UPLOAD_START", "_UPLOAD_END"]);
+    expect(JSON.parse(transport.latest().sent[0] as string).data).toMatchObject(
+      {
+        id: upload.id,
+        event: "_ACTION:files",
+        metadata: { type: "SAVE" },
+        size: 10,
+        chunkSize: 4,
+      }
+    );
+    expect(progress).toEqual(expect.arrayContaining([4, 8, 10]));
+    expect(upload.progress).toEqual({ status: "done", sent: 10, total: 10 });
+    session.disconnect();
+  });
+
+  test("reads Blobs and streams", async () => {
+    const { transport, session } = setup();
+    const server = serveUploads(transport.latest());
+
+    await session.upload("B", null, new Blob([bytes(5)]), { chunkSize: 3 })
+      .done;
+    expect(server.chunks.map((c) => c.bytes)).toEqual([
+      [0, 1, 2],
+      [3, 4],
+    ]);
+
+    server.chunks.length = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2]));
+        controller.enqueue(new Uint8Array([3, 4, 5]));
+        controller.close();
+      },
+    });
+    const upload = session.upload("S", null, stream as any, { chunkSize: 4 });
+    expect(upload.progress.total).toBe(null);
+    await upload.done;
+    expect(server.chunks.map((c) => c.bytes)).toEqual([[1, 2, 3, 4], [5]]);
+    session.disconnect();
+  });
+
+  test("waits while the socket's buffer is above the high water mark", async () => {
+    const { transport, session } = setup();
+    const socket = transport.latest() as FakeTransport & {
+      bufferedAmount: number;
+    };
+    socket.bufferedAmount = 100;
+    const server = serveUploads(socket);
+
+    const upload = session.upload("B", null, bytes(8), {
+      chunkSize: 4,
+      highWaterMark: 50,
+    });
+    await new Promise((r) => setTimeout(r, 50));
+    expect(server.chunks).toHaveLength(0);
+
+    socket.bufferedAmount = 0;
+    await upload.done;
+    expect(server.chunks).toHaveLength(2);
+    session.disconnect();
+  });
+
+  test("cancel tells the server and rejects", async () => {
+    const { transport, session } = setup();
+    const socket = transport.latest() as FakeTransport & {
+      bufferedAmount: number;
+    };
+    socket.bufferedAmount = 100;
+    const server = serveUploads(socket);
+
+    const upload = session.upload("B", null, bytes(8), { highWaterMark: 0 });
+    await new Promise((r) => setTimeout(r, 20));
+    upload.cancel();
+
+    await expect(upload.done).rejects.toMatchObject({ reason: "aborted" });
+    expect(upload.progress.status).toBe("cancelled");
+    expect(server.events).toEqual(["_UPLOAD_START", "_UPLOAD_CANCEL"]);
+    session.disconnect();
+  });
+
+  test("resumes at the server's offset after a reconnect", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { transport, session } = setup();
+    serveUploads(transport.latest(), { answerEnd: false });
+
+    const upload = session.upload("B", null, bytes(10), { chunkSize: 4 });
+    const statuses: UploadStatus[] = [];
+    upload.subscribe(() => statuses.push(upload.progress.status));
+    await new Promise((r) => setTimeout(r, 0));
+    transport.latest().serverClose(1006); // before _UPLOAD_END was answered
+
+    await new Promise((r) => setTimeout(r, 0));
+    const server = serveUploads(transport.latest(), { offset: 4 });
+    transport.latest().open();
+
+    await expect(upload.done).resolves.toEqual({ size: 10 });
+    expect(server.chunks.map((c) => c.offset)).toEqual([4, 8]);
+    expect(statuses).toContain("paused");
+    expect(upload.progress.status).toBe("done");
+    warn.mockRestore();
+    session.disconnect();
+  });
+
+  test("fails on disconnect when resume is off", async () => {
+    const { transport, session } = setup();
+    serveUploads(transport.latest(), { answerEnd: false });
+
+    const upload = session.upload("B", null, bytes(4), { resume: false });
+    await new Promise((r) => setTimeout(r, 0));
+    transport.latest().serverClose(1006);
+
+    const error = await upload.done.catch((e: RequestError) => e);
+    expect(error).toBeInstanceOf(RequestError);
+    expect((error as RequestError).reason).toBe("disconnected");
+    expect(upload.progress.status).toBe("failed");
+    session.disconnect();
+  });
+
+  test("fails when the session is disconnected mid-upload", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { transport, session } = setup();
+    serveUploads(transport.latest(), { answerEnd: false });
+
+    const upload = session.upload("B", null, bytes(4));
+    await new Promise((r) => setTimeout(r, 0));
+    session.disconnect();
+
+    await expect(upload.done).rejects.toMatchObject({ reason: "disconnected" });
+    expect(upload.progress.status).toBe("failed");
+    warn.mockRestore();
+  });
+
+  test("removes its listener from the caller's signal when settled", async () => {
+    const { transport, session } = setup();
+    serveUploads(transport.latest());
+    const controller = new AbortController();
+    const remove = jest.spyOn(controller.signal, "removeEventListener");
+
+    const upload = session.upload("B", null, bytes(4), {
+      signal: controller.signal,
+    });
+    await upload.done;
+    expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+    session.disconnect();
+  });
+});
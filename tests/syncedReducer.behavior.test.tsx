@@ -6,31 +6,7 @@ import {
   useSynced,
   useSyncedReducer,
 } from "../src";
-
-class MockSession {
-  events: Record<string, (data: any) => void> = {};
-  inits: Record<string, () => void> = {};
-  sent: { event: string; data: any }[] = [];
-  sentBinary: { event: string; meta: any; data: ArrayBuffer }[] = [];
-  send(event: string, data: any) {
-    this.sent.push({ event, data });
-  }
-  sendBinary(event: string, meta: any, data: ArrayBuffer) {
-    this.sentBinary.push({ event, meta, data });
-  }
-  registerEvent(ev: string, cb: (data: any) => void) {
-    this.events[ev] = cb;
-  }
-  deregisterEvent(ev: string) {
-    delete this.events[ev];
-  }
-  registerInit(key: string, cb: () => void) {
-    this.inits[key] = cb;
-  }
-  deregisterInit(key: string) {
-    delete this.inits[key];
-  }
-}
+import { MockSession } from "./utils/mocks";
 
 function withSession(session: any) {
   return ({ children }: any) => (
@@ -50,7 +26,13 @@ describe("useSyncedReducer: event wiring and teardown", () => {
     );
 
     expect(Object.keys(session.events).sort()).toEqual(
-      ["_ACTION:KEY", "_GET:KEY", "_PATCH:KEY", "_SET:KEY"].sort()
+      [
+        "_ACTION:KEY",
+        "_GET:KEY",
+        "_HYDRATE:KEY",
+        "_PATCH:KEY",
+        "_SET:KEY",
+      ].sort()
     );
     expect(Object.keys(session.inits)).toEqual(["KEY"]);
 
@@ -0,0 +1,125 @@
+import { Session } from "../src/session";
+import { hotToastAdapter, Toastify, toastifyAdapter } from "../src/toast";
+import { createFakeTransport, createToastMock } from "./utils/mocks";
+
+describe("Session notifications", () => {
+  test("connection toasts replace each other", () => {
+    const transport = createFakeTransport();
+    const toast = createToastMock();
+    const session = new Session({
+      url: "ws://x",
+      toast,
+      transport: transport.factory,
+      reconnect: { nextDelay: () => 1000 },
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose(1006);
+
+    const ids = [toast.info, toast.success, toast.warning].map(
+      (fn) => fn.mock.calls[0][1].id
+    );
+    expect(new Set(ids).size).toBe(1);
+
+    session.send("X", 1);
+    expect(toast.error.mock.calls[0][1].id).not.toBe(ids[0]);
+    session.disconnect();
+
+    const other = new Session({ url: "ws://x", toast });
+    other.send("X", 1);
+    expect(toast.error.mock.calls[1][1].id).not.toBe(
+      toast.error.mock.calls[0][1].id
+    );
+  });
+
+  test("uses the message catalog", () => {
+    const transport = createFakeTransport();
+    const toast = createToastMock();
+    const session = new Session({
+      url: "ws://x",
+      label: "Server",
+      toast,
+      transport: transport.factory,
+      toastMessages: {
+        connecting: (label) => `Verbinde mit ${label}…`,
+        reconnecting: (label, seconds) =>
+          `${label}: neuer Versuch in ${seconds}s`,
+      },
+      reconnect: { nextDelay: () => 1500 },
+    });
+    session.connect();
+    transport.latest().open();
+    transport.latest().serverClose(1006);
+
+    expect(toast.info.mock.calls[0][0]).toBe("Verbinde mit Server…");
+    expect(toast.success.mock.calls[0][0]).toBe("Connected to Server!"); // default
+    expect(toast.warning.mock.calls[0][0]).toBe(
+      "Server: neuer Versuch in 1.5s"
+    );
+    session.disconnect();
+  });
+});
+
+describe("toast adapters", () => {
+  test("hotToastAdapter shows info and warning with an icon", () => {
+    const toast = Object.assign(jest.fn(), {
+      success: jest.fn(),
+      error: jest.fn(),
+      loading: jest.fn(),
+      dismiss: jest.fn(),
+    });
+    const adapter = hotToastAdapter(toast);
+    adapter.warning("careful", { id: "c" });
+    adapter.error("broken");
+    adapter.dismiss?.("c");
+    adapter.message?.("Saved", { description: "3 files" });
+
+    expect(toast).toHaveBeenCalledWith("careful", {
+      id: "c",
+      duration: undefined,
+      icon: "⚠️",
+    });
+    expect(toast.error).toHaveBeenCalledWith("broken", {
+      id: undefined,
+      duration: undefined,
+    });
+    expect(toast.dismiss).toHaveBeenCalledWith("c");
+    expect(toast).toHaveBeenLastCalledWith("Saved\n3 files", {
+      id: undefined,
+      duration: undefined,
+    });
+  });
+
+  test("toastifyAdapter updates a toast that is still shown", () => {
+    const active = new Set<string>();
+    const show = (content: string, options?: { toastId?: string }) => {
+      if (options?.toastId) active.add(options.toastId);
+      return options?.toastId ?? content;
+    };
+    const toast = {
+      info: jest.fn(show),
+      success: jest.fn(show),
+      warning: jest.fn(show),
+      error: jest.fn(show),
+      loading: jest.fn(show),
+      update: jest.fn(),
+      isActive: (id: string) => active.has(id),
+      dismiss: jest.fn(),
+    } satisfies Toastify;
+    const adapter = toastifyAdapter(toast);
+
+    adapter.loading("Connecting", { id: "conn", duration: Infinity });
+    adapter.success("Connected", { id: "conn" });
+    expect(toast.loading).toHaveBeenCalledWith("Connecting", {
+      autoClose: false,
+      toastId: "conn",
+    });
+    expect(toast.success).not.toHaveBeenCalled();
+    expect(toast.update).toHaveBeenCalledWith("conn", {
+      autoClose: 5000,
+      render: "Connected",
+      type: "success",
+      isLoading: false,
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { BroadcastChannel as NodeBroadcastChannel } from "worker_threads";
+import { waitFor } from "@testing-library/dom";
+import { Session } from "../src/session";
+import { Sync, patchEvent, setEvent } from "../src/sync";
+import {
+  BroadcastChannelTransport,
+  LoopbackServer,
+  LoopbackSocket,
+  ReadyState,
+  broadcastChannelTransport,
+} from "../src/transport";
+
+describe("LoopbackServer", () => {
+  test("runs a Session without a socket", async () => {
+    const server = new LoopbackServer();
+    const received: unknown[] = [];
+    server.onConnection((socket) => {
+      socket.onmessage = (e) => received.push(JSON.parse(e.data as string));
+    });
+
+    const session = new Session({ url: "loopback://test", transport: server.transport });
+    const handler = jest.fn();
+    session.registerEvent("HELLO", handler);
+    const cleanup = session.connect();
+    await waitFor(() => expect(session.isConnected).toBe(true));
+    expect(server.connections).toHaveLength(1);
+
+    session.send("PING", { n: 1 });
+    server.broadcast(JSON.stringify({ type: "HELLO", data: "world" }));
+    await waitFor(() => expect(handler).toHaveBeenCalledWith("world"));
+    expect(received).toEqual([{ type: "PING", data: { n: 1 } }]);
+
+    cleanup();
+    await waitFor(() => expect(server.connections).toHaveLength(0));
+  });
+
+  test("drives a Sync end to end", async () => {
+    const server = new LoopbackServer();
+    let socket!: LoopbackSocket;
+    const received: any[] = [];
+    server.onConnection((s) => {
+      socket = s;
+      s.onmessage = (e) => received.push(JSON.parse(e.data as string));
+    });
+    const session = new Session({ url: "loopback://", transport: server.transport });
+    const sync = new Sync("Doc", session);
+    let state: any = null;
+    const cleanup = sync.registerHandlers(
+      () => state,
+      (s) => (state = s),
+      () => {},
+      () => {}
+    );
+    const disconnect = session.connect();
+    await waitFor(() => expect(session.isConnected).toBe(true));
+
+    socket.send(JSON.stringify({ type: setEvent("Doc"), data: { title: "a" } }));
+    await waitFor(() => expect(state).toEqual({ title: "a" }));
+
+    sync.appendPatch([{ op: "replace", path: ["title"], value: "b" }]);
+    sync.flush();
+    await waitFor(() =>
+      expect(received).toEqual([
+        {
+          type: patchEvent("Doc"),
+          data: [{ op: "replace", path: "/title", value: "b" }],
+        },
+      ])
+    );
+
+    disconnect();
+    cleanup();
+  });
+
+  test("closing the server end closes the client", async () => {
+    const server = new LoopbackServer();
+    const session = new Session({
+      url: "loopback://",
+      transport: server.transport,
+      minRetryInterval: 10000,
+    });
+    const cleanup = session.connect();
+    await waitFor(() => expect(session.isConnected).toBe(true));
+    server.connections[0].close(4000, "bye");
+    await waitFor(() => expect(session.isConnected).toBe(false));
+    cleanup();
+  });
+
+  test("binary messages arrive according to binaryType", async () => {
+    const [a, b] = LoopbackSocket.pair("loopback://");
+    b.binaryType = "arraybuffer";
+    const messages: unknown[] = [];
+    b.onmessage = (e) => messages.push(e.data);
+    a.connect();
+    await waitFor(() => expect(a.readyState).toBe(ReadyState.OPEN));
+
+    a.send(new Uint8Array([1, 2, 3]).subarray(1));
+    await waitFor(() => expect(messages).toHaveLength(1));
+    expect(new Uint8Array(messages[0] as ArrayBuffer)).toEqual(new Uint8Array([2, 3]));
+  });
+});
+
+describe("BroadcastChannelTransport", () => {
+  const original = (globalThis as any).BroadcastChannel;
+  beforeAll(() => {
+    (globalThis as any).BroadcastChannel = NodeBroadcastChannel;
+  });
+  afterAll(() => {
+    (globalThis as any).BroadcastChannel = original;
+  });
+
+  test("exchanges frames with another context on the same channel", async () => {
+    const peer = new BroadcastChannelTransport("ws-sync-test");
+    const fromClient: unknown[] = [];
+    peer.onmessage = (e) => fromClient.push(JSON.parse(e.data as string));
+
+    const session = new Session({
+      url: "ws-sync-test",
+      transport: broadcastChannelTransport,
+    });
+    const handler = jest.fn();
+    session.registerEvent("EVT", handler);
+    const cleanup = session.connect();
+    await waitFor(() => expect(session.isConnected).toBe(true));
+    await waitFor(() => expect(peer.readyState).toBe(ReadyState.OPEN));
+
+    session.send("UP", 1);
+    peer.send(JSON.stringify({ type: "EVT", data: 2 }));
+    await waitFor(() => expect(fromClient).toEqual([{ type: "UP", data: 1 }]));
+    await waitFor(() => expect(handler).toHaveBeenCalledWith(2));
+
+    cleanup();
+    peer.close();
+  });
+
+  test("fails to open when BroadcastChannel is unavailable", async () => {
+    (globalThis as any).BroadcastChannel = undefined;
+    const transport = new BroadcastChannelTransport("x");
+    const onclose = jest.fn();
+    transport.onclose = onclose;
+    await waitFor(() => expect(onclose).toHaveBeenCalled());
+    expect(transport.readyState).toBe(ReadyState.CLOSED);
+    (globalThis as any).BroadcastChannel = NodeBroadcastChannel;
+  });
+});
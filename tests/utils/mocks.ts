@@ -1,3 +1,5 @@
+import { defaultLogger } from "../../src/logger";
+
 export function createToastMock() {
   return {
     info: jest.fn(),
@@ -9,10 +11,12 @@ export function createToastMock() {
 }
 
 export class MockSession {
+  logger = defaultLogger;
   events: Record<string, (data: any) => void> = {};
   inits: Record<string, () => void> = {};
   sent: { event: string; data: any }[] = [];
   sentBinary: { event: string; meta: any; data: ArrayBuffer }[] = [];
+  hydration: Record<string, unknown> = {};
 
   send(event: string, data: any) {
     this.sent.push({ event, data });
@@ -37,8 +41,63 @@ export class MockSession {
   deregisterInit(key: string) {
     delete this.inits[key];
   }
+
+  hydratedState(key: string): unknown {
+    return this.hydration[key];
+  }
+
+  releaseHydratedState(key: string) {
+    delete this.hydration[key];
+  }
 }
 
 export function createMockSession() {
   return new MockSession();
 }
+
+// Transport whose lifecycle is driven by the test
+export class FakeTransport {
+  readyState = 0;
+  binaryType: BinaryType = "blob";
+  sent: unknown[] = [];
+  onopen: ((ev: any) => void) | null = null;
+  onclose: ((ev: any) => void) | null = null;
+  onmessage: ((ev: any) => void) | null = null;
+  onerror: ((ev: any) => void) | null = null;
+
+  constructor(public url: string, public protocols?: string | string[]) {}
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close = jest.fn((code: number = 1000, reason: string = "") => {
+    this.serverClose(code, reason);
+  });
+
+  // simulate the server side
+  open() {
+    this.readyState = 1;
+    this.onopen?.({ type: "open" });
+  }
+
+  serverClose(code: number = 1000, reason: string = "") {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.({ code, reason, wasClean: code === 1000 });
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data });
+  }
+}
+
+export function createFakeTransport() {
+  const sockets: FakeTransport[] = [];
+  const factory = (url: string, protocols?: string | string[]) => {
+    const socket = new FakeTransport(url, protocols);
+    sockets.push(socket);
+    return socket;
+  };
+  return { factory, sockets, latest: () => sockets[sockets.length - 1] };
+}
@@ -0,0 +1,4 @@
+// jsdom does not provide these browser globals, borrow them from node
+import { TextDecoder, TextEncoder } from "util";
+
+Object.assign(globalThis, { TextDecoder, TextEncoder });